@@ -0,0 +1,86 @@
+import { AckTracker } from './AckTracker';
+
+// Lets the poller's promise chain run to completion
+const settle = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('AckTracker', () => {
+  beforeEach(() => jest.useFakeTimers());
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('polls for outstanding acks on an interval', async () => {
+    const poll = jest.fn().mockResolvedValue({});
+    const tracker = new AckTracker(poll, 1000, 10000);
+    tracker.waitFor(1);
+    tracker.waitFor(2);
+    jest.advanceTimersByTime(1000);
+
+    expect(poll).toHaveBeenCalledTimes(1);
+    expect(poll).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it('resolves true once acknowledged', async () => {
+    const poll = jest
+      .fn()
+      .mockResolvedValueOnce({ 1: false })
+      .mockResolvedValueOnce({ 1: true });
+    const tracker = new AckTracker(poll, 1000, 10000);
+    const acknowledged = jest.fn();
+    tracker.waitFor(1).then(acknowledged);
+    jest.advanceTimersByTime(1000);
+    await settle();
+    expect(acknowledged).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1000);
+    await settle();
+
+    expect(acknowledged).toHaveBeenCalledWith(true);
+    expect(tracker.outstanding).toBe(0);
+  });
+
+  it('resolves false when not acknowledged before the timeout', async () => {
+    const poll = jest.fn().mockResolvedValue({});
+    const tracker = new AckTracker(poll, 1000, 2000);
+    const acknowledged = jest.fn();
+    tracker.waitFor(1).then(acknowledged);
+    jest.advanceTimersByTime(1000);
+    await settle();
+    jest.advanceTimersByTime(1000);
+    await settle();
+
+    expect(acknowledged).toHaveBeenCalledWith(false);
+  });
+
+  it('keeps waiting when polling fails', async () => {
+    const poll = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Oops'))
+      .mockResolvedValueOnce({ 1: true });
+    const tracker = new AckTracker(poll, 1000, 10000);
+    const acknowledged = jest.fn();
+    tracker.waitFor(1).then(acknowledged);
+    jest.advanceTimersByTime(1000);
+    await settle();
+    jest.advanceTimersByTime(1000);
+    await settle();
+
+    expect(acknowledged).toHaveBeenCalledWith(true);
+  });
+
+  it('stops polling when there is nothing to wait for', async () => {
+    const poll = jest.fn().mockResolvedValue({ 1: true });
+    const tracker = new AckTracker(poll, 1000, 10000);
+    tracker.waitFor(1);
+    jest.advanceTimersByTime(1000);
+    await settle();
+    jest.advanceTimersByTime(5000);
+
+    expect(poll).toHaveBeenCalledTimes(1);
+  });
+});
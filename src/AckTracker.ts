@@ -0,0 +1,75 @@
+export type AckPoller = (ackIds: number[]) => Promise<Record<string, boolean>>;
+
+type PendingAck = {
+  ackId: number;
+  remainingPolls: number;
+  resolve: (acknowledged: boolean) => void;
+};
+
+// Polls the HEC ack endpoint for outstanding ackIds. A single timer is
+// used no matter how many acks are outstanding and it only runs while
+// there is something to wait for.
+export class AckTracker {
+  private _pending: PendingAck[] = [];
+  private _timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private _poll: AckPoller,
+    private _pollInterval: number,
+    private _timeout: number
+  ) {}
+
+  public get outstanding() {
+    return this._pending.length;
+  }
+
+  // Resolves `true` once the ackId is acknowledged or `false`
+  // if it is not acknowledged before the timeout.
+  public waitFor(ackId: number) {
+    return new Promise<boolean>(resolve => {
+      this._pending.push({
+        ackId,
+        remainingPolls: Math.max(
+          1,
+          Math.ceil(this._timeout / this._pollInterval)
+        ),
+        resolve,
+      });
+      this._schedule();
+    });
+  }
+
+  public clear() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+    this._pending.forEach(({ resolve }) => resolve(false));
+    this._pending = [];
+  }
+
+  private _schedule() {
+    if (!this._timer && this._pending.length) {
+      this._timer = setTimeout(() => this._check(), this._pollInterval);
+    }
+  }
+
+  private async _check() {
+    let acks: Record<string, boolean> = {};
+    try {
+      acks = await this._poll(this._pending.map(({ ackId }) => ackId));
+    } catch (e) {
+      // Keep waiting, the acks may still arrive before they time out
+    }
+    this._pending = this._pending.filter(pending => {
+      pending.remainingPolls--;
+      if (acks[pending.ackId] || pending.remainingPolls <= 0) {
+        pending.resolve(!!acks[pending.ackId]);
+        return false;
+      }
+      return true;
+    });
+    this._timer = undefined;
+    this._schedule();
+  }
+}
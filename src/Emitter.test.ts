@@ -0,0 +1,52 @@
+import { Emitter } from './Emitter';
+
+type TestEvents = {
+  ping: number;
+  pong: string;
+};
+
+describe('Emitter', () => {
+  it('calls the listeners of the emitted event', () => {
+    const emitter = new Emitter<TestEvents>();
+    const ping = jest.fn();
+    const pong = jest.fn();
+    emitter.on('ping', ping);
+    emitter.on('pong', pong);
+    emitter.emit('ping', 1);
+
+    expect(ping).toHaveBeenCalledWith(1);
+    expect(pong).not.toHaveBeenCalled();
+  });
+
+  it('removes listeners with off', () => {
+    const emitter = new Emitter<TestEvents>();
+    const ping = jest.fn();
+    emitter.on('ping', ping);
+    emitter.off('ping', ping);
+    emitter.emit('ping', 1);
+
+    expect(ping).not.toHaveBeenCalled();
+  });
+
+  it('removes listeners with the function returned from on', () => {
+    const emitter = new Emitter<TestEvents>();
+    const ping = jest.fn();
+    const unsubscribe = emitter.on('ping', ping);
+    unsubscribe();
+    emitter.emit('ping', 1);
+
+    expect(ping).not.toHaveBeenCalled();
+  });
+
+  it('keeps calling listeners when one throws', () => {
+    const emitter = new Emitter<TestEvents>();
+    const ping = jest.fn();
+    emitter.on('ping', () => {
+      throw new Error('Bad listener');
+    });
+    emitter.on('ping', ping);
+
+    expect(() => emitter.emit('ping', 1)).not.toThrow();
+    expect(ping).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,41 @@
+type Listener<T> = (payload: T) => void;
+
+// A minimal typed event emitter that works in browsers and node
+export class Emitter<TEvents> {
+  private _listeners: Partial<Record<keyof TEvents, Array<Listener<any>>>> = {};
+
+  // Returns a function that removes the listener
+  public on<K extends keyof TEvents>(
+    event: K,
+    listener: Listener<TEvents[K]>
+  ): () => void {
+    this._listeners[event] = [...this._get(event), listener];
+    return () => this.off(event, listener);
+  }
+
+  public off<K extends keyof TEvents>(
+    event: K,
+    listener: Listener<TEvents[K]>
+  ) {
+    this._listeners[event] = this._get(event).filter(
+      registered => registered !== listener
+    );
+  }
+
+  public emit<K extends keyof TEvents>(event: K, payload: TEvents[K]) {
+    this._get(event).forEach(listener => {
+      try {
+        listener(payload);
+      } catch (e) {
+        // Never let a faulty listener break logging
+      }
+    });
+  }
+
+  private _get<K extends keyof TEvents>(event: K): Array<Listener<TEvents[K]>> {
+    const listeners: Array<Listener<TEvents[K]>> | undefined = this._listeners[
+      event
+    ];
+    return listeners || [];
+  }
+}
@@ -0,0 +1,27 @@
+export type KersplunkErrorDetails = {
+  status?: number; // HTTP status of the HEC response
+  code?: number; // HEC response code
+  invalidEventNumber?: number;
+  retryable: boolean;
+  cause?: unknown;
+};
+
+export class KersplunkError extends Error {
+  public readonly status?: number;
+  public readonly code?: number;
+  public readonly invalidEventNumber?: number;
+  public readonly retryable: boolean;
+  public readonly cause?: unknown;
+
+  constructor(message: string, details: KersplunkErrorDetails) {
+    super(message);
+    // Restore the prototype chain since we compile down to ES5
+    Object.setPrototypeOf(this, KersplunkError.prototype);
+    this.name = 'KersplunkError';
+    this.status = details.status;
+    this.code = details.code;
+    this.invalidEventNumber = details.invalidEventNumber;
+    this.retryable = details.retryable;
+    this.cause = details.cause;
+  }
+}
@@ -1,5 +1,28 @@
+import { gunzipSync, gzipSync } from 'zlib';
+import * as clockModule from './clock';
+import * as compressionModule from './compression';
 import * as fetchModule from './fetch';
+import { KersplunkError } from './KersplunkError';
 import { Logger, LoggerConfiguration } from './Logger';
+import { DROP } from './middleware';
+import { REDACTION_PATTERNS } from './redaction';
+import { MemoryStorageAdapter } from './storage';
+import { FanoutTransport, MemoryTransport, Transport } from './transports';
+import { version } from './version.json';
+
+const hecResponse = (status: number, body: object) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as any);
+
+// Lets pending promise chains (eg: failed submissions) run to completion
+const settle = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
 
 type InterceptedLogs = {
   url: string;
@@ -21,7 +44,7 @@ const interceptLogs = () => {
       requestConfig,
       logs: stringBody.split('\n').map(line => JSON.parse(line)),
     });
-    return Promise.resolve({} as any);
+    return Promise.resolve(hecResponse(200, { text: 'Success', code: 0 }));
   });
 
   return collection;
@@ -121,6 +144,127 @@ describe('Logger', () => {
 
       expect(loggerOne).not.toBe(loggerTwo);
     });
+
+    it('closes the old singleton', async () => {
+      const logger = Logger.singleton(config);
+      logger.info('foo');
+      const summary = await Logger.clearSingleton({ close: true });
+
+      expectToHaveLogged([{ eventName: 'foo' }]);
+      expect(summary).toEqual({
+        delivered: { batches: 1, events: 1 },
+        abandoned: { batches: 0, events: 0 },
+      });
+    });
+  });
+
+  describe('close', () => {
+    it('sends the buffer', async () => {
+      const logger = Logger.create(config);
+      logger.info('one');
+      logger.info('two');
+      const summary = await logger.close();
+
+      expectToHaveLogged([{ eventName: 'one' }, { eventName: 'two' }]);
+      expect(summary).toEqual({
+        delivered: { batches: 1, events: 2 },
+        abandoned: { batches: 0, events: 0 },
+      });
+    });
+
+    it('waits for batches that are being retried', async () => {
+      const logger = Logger.create({
+        ...config,
+        retryPolicy: { initialDelay: 1000, jitter: 0 },
+      });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!');
+      logger.info('foo');
+      const closing = logger.close();
+      await settle();
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+
+      expect(await closing).toEqual({
+        delivered: { batches: 1, events: 1 },
+        abandoned: { batches: 0, events: 0 },
+      });
+      expectToHaveLogged([{ eventName: 'foo' }]);
+    });
+
+    it('abandons batches that are still pending at the deadline', async () => {
+      const logger = Logger.create({
+        ...config,
+        retryPolicy: { initialDelay: 1000, jitter: 0 },
+      });
+      jest.spyOn(fetchModule, 'fetch').mockRejectedValue('Oops, no network!');
+      logger.info('foo');
+      const closing = logger.close({ timeoutMs: 2500 });
+      await settle();
+      jest.advanceTimersByTime(1000);
+      await settle();
+      jest.advanceTimersByTime(1500);
+
+      expect(await closing).toEqual({
+        delivered: { batches: 0, events: 0 },
+        abandoned: { batches: 1, events: 1 },
+      });
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('counts dropped batches as abandoned', async () => {
+      const logger = Logger.create(config);
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockResolvedValueOnce(
+          hecResponse(403, { text: 'Invalid token', code: 4 })
+        );
+      logger.info('foo');
+
+      expect(await logger.close()).toEqual({
+        delivered: { batches: 0, events: 0 },
+        abandoned: { batches: 1, events: 1 },
+      });
+    });
+
+    it('stops accepting logs', async () => {
+      const logger = Logger.create(config);
+      const closing = logger.close();
+      logger.info('foo');
+      await closing;
+      await logger.flush();
+
+      expect(logs).toHaveLength(0);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('keeps abandoned batches in storage', async () => {
+      const storage = new MemoryStorageAdapter();
+      const logger = Logger.create({ ...config, storage });
+      jest.spyOn(fetchModule, 'fetch').mockRejectedValue('Oops, no network!');
+      logger.info('foo');
+      const closing = logger.close({ timeoutMs: 100 });
+      await settle();
+      jest.advanceTimersByTime(100);
+      await closing;
+
+      expect(JSON.parse(storage.data!).pending).toEqual([
+        [expect.objectContaining({ events: 1 })],
+      ]);
+    });
+
+    it('closes the root logger from a child', async () => {
+      const logger = Logger.create(config);
+      logger.child({ requestId: 'abc' }).info('foo');
+      await logger.child({}).close();
+
+      expectToHaveLogged([{ eventName: 'foo', requestId: 'abc' }]);
+      expect(await logger.close()).toEqual({
+        delivered: { batches: 1, events: 1 },
+        abandoned: { batches: 0, events: 0 },
+      });
+    });
   });
 
   describe('flush', () => {
@@ -141,11 +285,39 @@ describe('Logger', () => {
 
       expect(logs[0].requestConfig).toEqual(
         expect.objectContaining({
-          headers: { Authorization: 'Splunk FOO-TOKEN' },
+          headers: expect.objectContaining({
+            Authorization: 'Splunk FOO-TOKEN',
+          }),
         })
       );
     });
 
+    it('sends a stable request channel', async () => {
+      const logger = Logger.create(config);
+      logger.info('one');
+      await logger.flush();
+      logger.info('two');
+      await logger.flush();
+
+      const channels = logs.map(
+        log => log.requestConfig.headers['X-Splunk-Request-Channel']
+      );
+      expect(channels[0]).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+      expect(channels[1]).toBe(channels[0]);
+    });
+
+    it('sends a configured request channel', async () => {
+      const logger = Logger.create({ ...config, channel: 'my-channel' });
+      logger.info('one');
+      await logger.flush();
+
+      expect(logs[0].requestConfig.headers).toEqual(
+        expect.objectContaining({ 'X-Splunk-Request-Channel': 'my-channel' })
+      );
+    });
+
     it('does not submit when buffer is empty', async () => {
       const logger = Logger.create({ ...config, maxBuffer: 2 });
       await logger.flush();
@@ -154,231 +326,2403 @@ describe('Logger', () => {
     });
   });
 
-  describe('logging', () => {
-    it('serializes the details immediately so later mutations do not affect older logs', async () => {
-      const logger = Logger.create(config);
-      const details = { foo: 'foo' };
-      logger.info('one', details);
-      details.foo = 'new foo';
-      logger.info('two', details);
-      await logger.flush();
+  describe('useAck', () => {
+    let acked: number[];
+    let ackRequests: number[][];
 
-      expectToHaveLogged([
-        { eventName: 'one', foo: 'foo' },
-        { eventName: 'two', foo: 'new foo' },
-      ]);
+    beforeEach(() => {
+      let nextAckId = 0;
+      acked = [];
+      ackRequests = [];
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockImplementation((url: any, requestConfig: any) => {
+          if (url === 'http://splunk/services/collector/ack') {
+            const { acks } = JSON.parse(requestConfig.body);
+            ackRequests.push(acks);
+            return Promise.resolve(
+              hecResponse(200, {
+                acks: acks.reduce(
+                  (acc: object, id: number) => ({
+                    ...acc,
+                    [id]: acked.indexOf(id) >= 0,
+                  }),
+                  {}
+                ),
+              })
+            );
+          }
+          logs.push({
+            url,
+            requestConfig,
+            logs: requestConfig.body
+              .split('\n')
+              .map((line: string) => JSON.parse(line)),
+          });
+          return Promise.resolve(
+            hecResponse(200, { text: 'Success', code: 0, ackId: nextAckId++ })
+          );
+        });
     });
-  });
 
-  describe('splunkMeta', () => {
-    it('incudes static splunkMeta properties', async () => {
-      const logger = Logger.create({
-        ...config,
-        splunkMeta: { time: 123, host: 'my host' },
-      });
+    const ackConfig = {
+      ...config,
+      splunkUrl: 'http://splunk/services/collector/event',
+      useAck: true,
+      ackPollInterval: 1000,
+      ackTimeout: 3000,
+      autoRetryDuration: 1000,
+    };
+
+    it('polls the ack endpoint on the logger channel', async () => {
+      const logger = Logger.create({ ...ackConfig, channel: 'my-channel' });
       logger.info('foo');
       await logger.flush();
+      jest.advanceTimersByTime(1000);
 
-      expect(logs[0].logs[0]).toEqual(
+      expect(ackRequests).toEqual([[0]]);
+      expect(fetchModule.fetch).toHaveBeenLastCalledWith(
+        'http://splunk/services/collector/ack',
         expect.objectContaining({
-          time: 123,
-          host: 'my host',
+          headers: expect.objectContaining({
+            'X-Splunk-Request-Channel': 'my-channel',
+          }),
         })
       );
     });
 
-    it('provides a timestamp with <sec>.<ms> by default', async () => {
-      jest.spyOn(Date, 'now').mockReturnValue(12345);
-      const logger = Logger.create(config);
+    it('waits for the acknowledgment when flushing with waitForAck', async () => {
+      const logger = Logger.create(ackConfig);
+      const flushed = jest.fn();
       logger.info('foo');
-      await logger.flush();
+      logger.flush({ waitForAck: true }).then(flushed);
+      await settle();
+      jest.advanceTimersByTime(1000);
+      await settle();
+      expect(flushed).not.toHaveBeenCalled();
+      acked.push(0);
+      jest.advanceTimersByTime(1000);
+      await settle();
 
-      expect(logs[0].logs[0]).toEqual(
-        expect.objectContaining({
-          time: 12.345,
-        })
-      );
+      expect(flushed).toHaveBeenCalled();
     });
 
-    it('incudes dynamic splunkMeta properties', async () => {
+    it('re-sends batches that are not acknowledged before the timeout', async () => {
+      const onError = jest.fn();
       const logger = Logger.create({
-        ...config,
-        splunkMeta: () => ({ time: 123, host: 'my host' }),
+        ...ackConfig,
+        onError,
+        retryPolicy: { jitter: 0 },
       });
       logger.info('foo');
       await logger.flush();
-
-      expect(logs[0].logs[0]).toEqual(
+      for (let i = 0; i < 3; i++) {
+        jest.advanceTimersByTime(1000);
+        await settle();
+      }
+      expect(onError).toHaveBeenCalledWith(
         expect.objectContaining({
-          time: 123,
-          host: 'my host',
+          message: 'Splunk did not acknowledge the batch',
         })
       );
+      jest.advanceTimersByTime(1000);
+      await settle();
+
+      expectToHaveLogged([{ eventName: 'foo' }], [{ eventName: 'foo' }]);
     });
 
-    it('includes kersplunk version in the fields', async () => {
-      const logger = Logger.create(config);
+    it('keeps unacknowledged batches pending in storage', async () => {
+      const storage = new MemoryStorageAdapter();
+      const logger = Logger.create({ ...ackConfig, storage });
       logger.info('foo');
       await logger.flush();
+      await settle();
+      expect(JSON.parse(storage.data!).pending[0]).toHaveLength(1);
+      acked.push(0);
+      jest.advanceTimersByTime(1000);
+      await settle();
 
-      expect(logs[0].logs[0]).toEqual(
-        expect.objectContaining({
-          fields: { kersplunk: expect.stringMatching(/^\d+\.\d+\.\d+/) },
-        })
-      );
+      expect(JSON.parse(storage.data!).pending[0]).toHaveLength(0);
     });
+  });
 
-    it('includes kersplunk version on top of user-specified fields', async () => {
-      const logger = Logger.create({
-        ...config,
-        splunkMeta: { time: 123, host: 'my host', fields: { foo: 'bar' } },
-      });
-      logger.info('foo');
+  describe('compression', () => {
+    const compressionConfig = {
+      ...config,
+      compression: true,
+      compressionThreshold: 200,
+      autoRetryDuration: 1000,
+    };
+    let requests: Array<{ headers: any; body: string }>;
+
+    beforeEach(() => {
+      requests = [];
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockImplementation((_: any, requestConfig: any) => {
+          const { headers, body } = requestConfig;
+          requests.push({
+            headers,
+            body: typeof body === 'string' ? body : gunzipSync(body).toString(),
+          });
+          return Promise.resolve(hecResponse(200, { code: 0 }));
+        });
+    });
+
+    it('gzips bodies larger than the threshold', async () => {
+      const logger = Logger.create(compressionConfig);
+      logger.info('foo', { padding: 'x'.repeat(200) });
       await logger.flush();
 
-      expect(logs[0].logs[0]).toEqual(
-        expect.objectContaining({
-          fields: {
-            foo: 'bar',
-            kersplunk: expect.stringMatching(/^\d+\.\d+\.\d+/),
-          },
-        })
+      expect(requests[0].headers['Content-Encoding']).toBe('gzip');
+      expect(JSON.parse(requests[0].body).event).toEqual(
+        expect.objectContaining({ eventName: 'foo' })
       );
     });
-  });
 
-  describe('interceptors', () => {
-    it('modifies the outgoing log details with intercept return', async () => {
-      const logger = Logger.create({
-        ...config,
-        interceptor: originalDetails => ({
-          ...originalDetails,
-          newDetails: 'bar',
-        }),
-      });
-      logger.info('one', { originalDetails: 'foo' });
+    it('does not gzip bodies smaller than the threshold', async () => {
+      const logger = Logger.create(compressionConfig);
+      logger.info('foo');
       await logger.flush();
 
-      expectToHaveLogged([
-        { eventName: 'one', originalDetails: 'foo', newDetails: 'bar' },
-      ]);
+      expect(requests[0].headers['Content-Encoding']).toBeUndefined();
     });
 
-    it('can be set after the logger is created', async () => {
-      const logger = Logger.create(config);
-      logger.interceptor = originalDetails => ({
-        ...originalDetails,
-        newDetails: 'bar',
-      });
-      logger.info('one', { originalDetails: 'foo' });
+    it('does not compress again when retrying', async () => {
+      const gzip = jest.spyOn(compressionModule, 'gzip');
+      (fetchModule.fetch as jest.Mock).mockRejectedValueOnce('No network!');
+      const logger = Logger.create(compressionConfig);
+      logger.info('foo', { padding: 'x'.repeat(200) });
       await logger.flush();
+      jest.advanceTimersByTime(1000);
+      await settle();
 
-      expectToHaveLogged([
-        { eventName: 'one', originalDetails: 'foo', newDetails: 'bar' },
-      ]);
+      expect(requests).toHaveLength(1);
+      expect(requests[0].headers['Content-Encoding']).toBe('gzip');
+      expect(gzip).toHaveBeenCalledTimes(1);
     });
-  });
 
-  describe('buffering', () => {
-    it('automatically flushes logs when the buffer is full', () => {
-      const logger = Logger.create({ ...config, maxBuffer: 3 });
-      logger.info('group1:one');
-      logger.info('group1:two');
-      logger.info('group1:three');
-      // Buffer max hit
-      logger.info('group2:four');
-      logger.info('group2:five');
-      logger.info('group2:six');
+    it('compresses again when retrying to another endpoint', async () => {
+      const gzip = jest
+        .spyOn(compressionModule, 'gzip')
+        .mockImplementation(body => Promise.resolve(gzipSync(body)));
+      (fetchModule.fetch as jest.Mock).mockRejectedValueOnce('No network!');
+      const logger = Logger.create(compressionConfig);
+      logger.info('foo', { padding: 'x'.repeat(200) });
+      await logger.flush();
+      logger.configure({ endpoint: 'raw' });
+      jest.advanceTimersByTime(1000);
+      await settle();
 
-      expectToHaveLogged(
-        [
-          { eventName: 'group1:one' },
-          { eventName: 'group1:two' },
-          { eventName: 'group1:three' },
-        ],
-        [
-          { eventName: 'group2:four' },
-          { eventName: 'group2:five' },
-          { eventName: 'group2:six' },
-        ]
+      expect(requests).toHaveLength(1);
+      expect(requests[0].headers['Content-Encoding']).toBe('gzip');
+      expect(JSON.parse(requests[0].body)).toEqual(
+        expect.objectContaining({ eventName: 'foo' })
       );
+      expect(gzip).toHaveBeenCalledTimes(2);
     });
-  });
 
-  describe('throttling', () => {
-    it('automatically flushes logs when the the throttleDuration is met', () => {
-      const logger = Logger.create({
-        ...config,
-        throttleDuration: 2000,
-        maxBuffer: 3,
-      });
-      logger.info('one');
-      logger.info('two');
-      jest.advanceTimersByTime(2001);
+    it('sends the body uncompressed when gzip is unavailable', async () => {
+      jest.spyOn(compressionModule, 'gzip').mockResolvedValue(undefined);
+      const logger = Logger.create(compressionConfig);
+      logger.info('foo', { padding: 'x'.repeat(200) });
+      await logger.flush();
 
-      expectToHaveLogged([{ eventName: 'one' }, { eventName: 'two' }]);
+      expect(requests[0].headers['Content-Encoding']).toBeUndefined();
     });
+  });
 
-    it('does not log before the buffer is full or the duration is met', () => {
+  describe('flushOnExit', () => {
+    it('sends the buffer with a beacon when the page unloads', () => {
+      const transport = new MemoryTransport();
+      const sendBeacon = jest.fn().mockReturnValue(true);
       const logger = Logger.create({
-        ...config,
-        throttleDuration: 2000,
-        maxBuffer: 3,
+        transport: Object.assign(transport, { sendBeacon }),
       });
-      logger.info('nope:one');
-      logger.info('nope:two');
-      jest.advanceTimersByTime(1000);
+      const uninstall = logger.flushOnExit({ environment: 'browser' });
+      logger.info('foo');
+      window.dispatchEvent(new Event('pagehide'));
+      uninstall();
 
-      expect(logs).toHaveLength(0);
+      expect(sendBeacon).toHaveBeenCalledWith(
+        expect.objectContaining({ events: 1 })
+      );
+      expect(transport.batches).toHaveLength(0);
     });
 
-    it('resets the timer when a new log entry is made', () => {
+    it('splits the buffer to fit beacon size limits', () => {
+      const sendBeacon = jest.fn().mockReturnValue(true);
       const logger = Logger.create({
-        ...config,
-        throttleDuration: 2000,
-        maxBuffer: 3,
+        transport: Object.assign(new MemoryTransport(), { sendBeacon }),
       });
-      logger.info('nope:one');
-      jest.advanceTimersByTime(1500);
-      logger.info('nope:two');
-      jest.advanceTimersByTime(1500);
+      const uninstall = logger.flushOnExit({ environment: 'browser' });
+      logger.info('one', { padding: 'x'.repeat(40000) });
+      logger.info('two', { padding: 'x'.repeat(40000) });
+      window.dispatchEvent(new Event('pagehide'));
+      uninstall();
 
-      expect(logs).toHaveLength(0);
+      expect(sendBeacon).toHaveBeenCalledTimes(2);
     });
 
-    it('resets the timer when flushed', async () => {
+    it('falls back to sending normally when the beacon is refused', () => {
+      const transport = new MemoryTransport();
       const logger = Logger.create({
-        ...config,
-        throttleDuration: 2000,
-        maxBuffer: 3,
+        transport: Object.assign(transport, {
+          sendBeacon: jest.fn().mockReturnValue(false),
+        }),
       });
-      logger.info('yup:one');
-      logger.info('yup:two');
-      jest.advanceTimersByTime(1000);
-      await logger.flush();
-      logger.info('nope:one'); // Should not be logged yet
-      jest.advanceTimersByTime(1900);
+      const uninstall = logger.flushOnExit({ environment: 'browser' });
+      logger.info('foo');
+      window.dispatchEvent(new Event('pagehide'));
+      uninstall();
 
-      expectToHaveLogged([{ eventName: 'yup:one' }, { eventName: 'yup:two' }]);
+      expect(transport.events).toHaveLength(1);
     });
-  });
 
-  describe('autoRetry', () => {
-    it('retries the flush when fetch fails', async () => {
+    it('sends HEC beacons with fetch keepalive', () => {
+      const nativeFetch = jest.fn().mockResolvedValue({});
+      (window as any).fetch = nativeFetch;
+      const logger = Logger.create({ ...config, channel: 'my-channel' });
+      const uninstall = logger.flushOnExit({ environment: 'browser' });
+      logger.info('foo');
+      window.dispatchEvent(new Event('pagehide'));
+      uninstall();
+      delete (window as any).fetch;
+
+      expect(logs).toHaveLength(0);
+      expect(nativeFetch).toHaveBeenCalledWith(
+        'http://my-splunk-endpoint',
+        expect.objectContaining({
+          keepalive: true,
+          headers: {
+            Authorization: 'Splunk MY-TOKEN',
+            'X-Splunk-Request-Channel': 'my-channel',
+          },
+        })
+      );
+    });
+
+    it('sends what does not fit in the keepalive quota normally', () => {
+      const nativeFetch = jest.fn(() => new Promise(() => undefined));
+      (window as any).fetch = nativeFetch;
+      const logger = Logger.create(config);
+      const uninstall = logger.flushOnExit({ environment: 'browser' });
+      logger.info('one', { padding: 'x'.repeat(40000) });
+      logger.info('two', { padding: 'x'.repeat(40000) });
+      window.dispatchEvent(new Event('pagehide'));
+      uninstall();
+      delete (window as any).fetch;
+
+      expect(nativeFetch).toHaveBeenCalledTimes(1);
+      expect(nativeFetch).toHaveBeenCalledWith(
+        'http://my-splunk-endpoint',
+        expect.objectContaining({
+          body: expect.stringContaining('"eventName":"one"'),
+        })
+      );
+      expectToHaveLogged([{ eventName: 'two' }]);
+    });
+
+    it('sends HEC beacons with navigator.sendBeacon when fetch is unavailable', () => {
+      const sendBeacon = jest.fn().mockReturnValue(true);
+      (navigator as any).sendBeacon = sendBeacon;
+      const logger = Logger.create({ ...config, channel: 'my-channel' });
+      const uninstall = logger.flushOnExit({ environment: 'browser' });
+      logger.info('foo');
+      window.dispatchEvent(new Event('pagehide'));
+      uninstall();
+      delete (navigator as any).sendBeacon;
+
+      expect(logs).toHaveLength(0);
+      expect(sendBeacon).toHaveBeenCalledWith(
+        'http://my-splunk-endpoint?token=MY-TOKEN&channel=my-channel',
+        expect.stringContaining('"eventName":"foo"')
+      );
+    });
+  });
+
+  // tslint:disable no-console
+  describe('captureConsole', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    it('logs console warnings and errors', async () => {
+      const logger = Logger.create(config);
+      const uninstall = logger.captureConsole();
+      console.warn('Deprecated option', { name: 'foo' });
+      console.error('Request failed', new Error('Boom!'));
+      console.log('not captured');
+      uninstall();
+      await logger.flush();
+
+      expectToHaveLogged([
+        {
+          logType: 'warn',
+          eventName: 'console.warn',
+          message: 'Deprecated option {"name":"foo"}',
+        },
+        {
+          logType: 'error',
+          eventName: 'console.error',
+          message: 'Request failed Error: Boom!',
+          error: expect.objectContaining({ name: 'Error', message: 'Boom!' }),
+        },
+      ]);
+    });
+
+    it('maps console methods to log types', async () => {
+      const logger = Logger.create(config, 'low', 'high');
+      const uninstall = logger.captureConsole({
+        methods: ['log', 'warn'],
+        logTypeMap: { warn: 'high' },
+      });
+      console.log('one');
+      console.warn('two');
+      uninstall();
+      await logger.flush();
+
+      expectToHaveLogged([
+        { logType: 'low', message: 'one' },
+        { logType: 'high', message: 'two' },
+      ]);
+    });
+
+    it('rejects unknown log types', () => {
+      const logger = Logger.create(config);
+
+      expect(() =>
+        logger.captureConsole({ logTypeMap: { warn: 'nope' } })
+      ).toThrow('Unknown log type "nope"');
+    });
+
+    it('does not capture its own logToConsole output', async () => {
+      const logger = Logger.create({ ...config, logToConsole: true });
+      const uninstall = logger.captureConsole({ methods: ['log'] });
+      console.log('hello');
+      uninstall();
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'console.log', message: 'hello' }]);
+      expect(console.log).toHaveBeenCalledWith(
+        'info',
+        'console.log',
+        expect.objectContaining({ message: 'hello' })
+      );
+    });
+  });
+  // tslint:enable no-console
+
+  describe('captureGlobalErrors', () => {
+    it('logs uncaught errors with the errorFormatter', async () => {
+      const logger = Logger.create({
+        ...config,
+        errorFormatter: err => ({ woah: err.message }),
+      });
+      const uninstall = logger.captureGlobalErrors({ environment: 'browser' });
+      window.dispatchEvent(
+        new ErrorEvent('error', { error: new Error('Boom!') })
+      );
+      uninstall();
+      await logger.flush();
+
+      expectToHaveLogged([
+        { logType: 'error', eventName: 'uncaughtException', woah: 'Boom!' },
+      ]);
+    });
+
+    it('logs unhandled rejections under the configured log type', async () => {
+      const logger = Logger.create(config);
+      const uninstall = logger
+        .child({ app: 'web' })
+        .captureGlobalErrors({ environment: 'browser', logType: 'warn' });
+      window.dispatchEvent(
+        Object.assign(new Event('unhandledrejection'), { reason: 'nope' })
+      );
+      uninstall();
+      await logger.flush();
+
+      expectToHaveLogged([
+        {
+          logType: 'warn',
+          eventName: 'unhandledRejection',
+          reason: 'nope',
+          app: 'web',
+        },
+      ]);
+    });
+
+    it('rejects unknown log types', () => {
+      const logger = Logger.create(config);
+
+      expect(() => logger.captureGlobalErrors({ logType: 'nope' })).toThrow(
+        'Unknown log type "nope"'
+      );
+    });
+  });
+
+  describe('raw endpoint', () => {
+    it('sends metadata as query parameters and events without an envelope', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkUrl: 'http://splunk/services/collector/event',
+        endpoint: 'raw',
+        splunkMeta: { sourcetype: 'my:type', index: 'main', host: 'me' },
+      });
+      logger.info('one', { foo: 'bar' });
+      logger.info('two');
+      await logger.flush();
+
+      expect(logs).toEqual([
+        {
+          url: `http://splunk/services/collector/raw?host=me&source=kersplunk-${encodeURIComponent(
+            version
+          )}&sourcetype=my%3Atype&index=main`,
+          requestConfig: expect.anything(),
+          logs: [
+            { logType: 'info', eventName: 'one', foo: 'bar' },
+            { logType: 'info', eventName: 'two' },
+          ],
+        },
+      ]);
+    });
+
+    it('sends a request for each set of metadata', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkUrl: 'http://splunk/services/collector',
+        endpoint: 'raw',
+        splunkMeta: { source: 'app' },
+      });
+      logger.info('one');
+      logger.child({}, { index: 'audit' }).info('two');
+      logger.info('three');
+      await logger.flush();
+
+      expect(logs.map(({ url }) => url)).toEqual([
+        'http://splunk/services/collector/raw?source=app&sourcetype=_json',
+        'http://splunk/services/collector/raw?source=app&sourcetype=_json&index=audit',
+      ]);
+      expect(logs.map(log => log.logs)).toEqual([
+        [
+          { logType: 'info', eventName: 'one' },
+          { logType: 'info', eventName: 'three' },
+        ],
+        [{ logType: 'info', eventName: 'two' }],
+      ]);
+    });
+
+    it('only retries the requests that failed', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkUrl: 'http://splunk/services/collector',
+        endpoint: 'raw',
+      });
+      const fetch = jest.spyOn(fetchModule, 'fetch');
+      fetch.mockResolvedValueOnce(hecResponse(200, { code: 0 }));
+      fetch.mockResolvedValueOnce(hecResponse(503, { code: 9 }));
+      logger.child({}, { index: 'a' }).info('one');
+      logger.child({}, { index: 'b' }).info('two');
+      await logger.flush();
+      await settle();
+      jest.advanceTimersByTime(1000);
+      await settle();
+
+      expect(
+        fetch.mock.calls.map(([url]) => /index=(\w)/.exec(url as string)![1])
+      ).toEqual(['a', 'b', 'b']);
+      expect(logger.stats()).toEqual(
+        expect.objectContaining({ sent: 2, pendingBatches: 0 })
+      );
+    });
+
+    it('retries every request when acks are used', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkUrl: 'http://splunk/services/collector',
+        endpoint: 'raw',
+        useAck: true,
+      });
+      const fetch = jest.spyOn(fetchModule, 'fetch');
+      fetch.mockResolvedValueOnce(hecResponse(200, { code: 0, ackId: 1 }));
+      fetch.mockResolvedValueOnce(hecResponse(503, { code: 9 }));
+      logger.child({}, { index: 'a' }).info('one');
+      logger.child({}, { index: 'b' }).info('two');
+      await logger.flush();
+      await settle();
+      jest.advanceTimersByTime(1000);
+      await settle();
+
+      expect(
+        fetch.mock.calls.map(([url]) => /index=(\w)/.exec(url as string)![1])
+      ).toEqual(['a', 'b', 'a', 'b']);
+    });
+  });
+
+  describe('logging', () => {
+    it('serializes the details immediately so later mutations do not affect older logs', async () => {
+      const logger = Logger.create(config);
+      const details = { foo: 'foo' };
+      logger.info('one', details);
+      details.foo = 'new foo';
+      logger.info('two', details);
+      await logger.flush();
+
+      expectToHaveLogged([
+        { eventName: 'one', foo: 'foo' },
+        { eventName: 'two', foo: 'new foo' },
+      ]);
+    });
+  });
+
+  describe('child', () => {
+    it('adds the bound context to each log', async () => {
+      const logger = Logger.create(config);
+      const child = logger.child({ requestId: 'abc' });
+      child.info('foo', { bar: 'baz' });
+      await child.flush();
+
+      expectToHaveLogged([
+        { logType: 'info', eventName: 'foo', requestId: 'abc', bar: 'baz' },
+      ]);
+    });
+
+    it('has the same log types as the parent', async () => {
+      const logger = Logger.create(config, 'happy', 'sad');
+      const child = logger.child({ requestId: 'abc' });
+      child.happy('yay');
+      child.sad('boo');
+      await logger.flush();
+
+      expectToHaveLogged([
+        { logType: 'happy', eventName: 'yay', requestId: 'abc' },
+        { logType: 'sad', eventName: 'boo', requestId: 'abc' },
+      ]);
+    });
+
+    it('shares the buffer of the parent', async () => {
+      const logger = Logger.create(config);
+      logger.info('parent');
+      logger.child({ requestId: 'abc' }).info('child');
+      await logger.flush();
+
+      expectToHaveLogged([
+        { eventName: 'parent' },
+        { eventName: 'child', requestId: 'abc' },
+      ]);
+    });
+
+    it('stacks the context of nested children', async () => {
+      const logger = Logger.create(config);
+      const child = logger.child({ requestId: 'abc', userId: 'me' });
+      child.child({ userId: 'you', step: 2 }).info('foo');
+      await logger.flush();
+
+      expectToHaveLogged([{ requestId: 'abc', userId: 'you', step: 2 }]);
+    });
+
+    it('formats errors logged by the child', async () => {
+      const logger = Logger.create(config);
+      logger.child({ requestId: 'abc' }).error('foo', new Error('Boom!'));
+      await logger.flush();
+
+      expectToHaveLogged([{ requestId: 'abc', message: 'Boom!' }]);
+    });
+
+    it('overrides the splunkMeta', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkMeta: { index: 'main', host: 'my host', fields: { app: 'me' } },
+      });
+      logger
+        .child({}, { index: 'audit', fields: { team: 'us' } })
+        .child({}, { source: 'payments' })
+        .info('foo');
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({
+          index: 'audit',
+          host: 'my host',
+          source: 'payments',
+          fields: {
+            app: 'me',
+            team: 'us',
+            kersplunk: expect.stringMatching(/^\d+\.\d+\.\d+/),
+          },
+        })
+      );
+    });
+
+    it('is disabled along with the parent', async () => {
+      const logger = Logger.create(config);
+      const child = logger.child({ requestId: 'abc' });
+      logger.disable();
+      child.info('nope');
+      await logger.flush();
+
+      expect(logs).toHaveLength(0);
+    });
+  });
+
+  describe('level', () => {
+    it('drops logs below the configured level', async () => {
+      const logger = Logger.create({ ...config, level: 'warn' });
+      logger.debug('nope');
+      logger.info('nope');
+      logger.warn('yup');
+      logger.error('yup');
+      await logger.flush();
+
+      expectToHaveLogged([{ logType: 'warn' }, { logType: 'error' }]);
+    });
+
+    it('can be changed after creation', async () => {
+      const logger = Logger.create(config);
+      logger.setLevel('error');
+      logger.warn('nope');
+      logger.error('yup');
+      logger.setLevel(undefined);
+      logger.debug('yup');
+      await logger.flush();
+
+      expectToHaveLogged([{ logType: 'error' }, { logType: 'debug' }]);
+    });
+
+    it('orders custom log types by their declaration order', async () => {
+      const logger = Logger.create(
+        { ...config, level: 'meh' },
+        'sad',
+        'meh',
+        'happy'
+      );
+      logger.sad('nope');
+      logger.meh('yup');
+      logger.happy('yup');
+      await logger.flush();
+
+      expectToHaveLogged([{ logType: 'meh' }, { logType: 'happy' }]);
+    });
+
+    it('orders log types by an explicit priority map', async () => {
+      const logger = Logger.create(
+        { ...config, level: 'meh', levels: { happy: 1, meh: 2, sad: 3 } },
+        'sad',
+        'meh',
+        'happy'
+      );
+      logger.sad('yup');
+      logger.meh('yup');
+      logger.happy('nope');
+      await logger.flush();
+
+      expectToHaveLogged([{ logType: 'sad' }, { logType: 'meh' }]);
+    });
+
+    it('applies to child loggers', async () => {
+      const logger = Logger.create(config);
+      const child = logger.child({ requestId: 'abc' });
+      logger.setLevel('info');
+      child.debug('nope');
+      child.info('yup');
+      await logger.flush();
+
+      expectToHaveLogged([{ logType: 'info', requestId: 'abc' }]);
+    });
+
+    it('drops logs before they are intercepted', async () => {
+      const interceptor = jest.fn();
+      const logger = Logger.create({ ...config, level: 'info', interceptor });
+      logger.debug('nope');
+
+      expect(interceptor).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown levels', () => {
+      expect(() => Logger.create({ ...config, level: 'loud' })).toThrow(
+        'Unknown log level "loud". Expected one of: debug, info, warn, error'
+      );
+      expect(() => Logger.create(config).setLevel('loud')).toThrow(
+        'Unknown log level "loud"'
+      );
+    });
+  });
+
+  describe('splunkMeta', () => {
+    it('incudes static splunkMeta properties', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkMeta: { time: 123, host: 'my host' },
+      });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({
+          time: 123,
+          host: 'my host',
+        })
+      );
+    });
+
+    it('provides a timestamp with <sec>.<ms> by default', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(12345);
+      const logger = Logger.create(config);
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({
+          time: 12.345,
+        })
+      );
+    });
+
+    it('incudes dynamic splunkMeta properties', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkMeta: () => ({ time: 123, host: 'my host' }),
+      });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({
+          time: 123,
+          host: 'my host',
+        })
+      );
+    });
+
+    it('includes kersplunk version in the fields', async () => {
+      const logger = Logger.create(config);
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({
+          fields: { kersplunk: expect.stringMatching(/^\d+\.\d+\.\d+/) },
+        })
+      );
+    });
+
+    it('includes kersplunk version on top of user-specified fields', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkMeta: { time: 123, host: 'my host', fields: { foo: 'bar' } },
+      });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({
+          fields: {
+            foo: 'bar',
+            kersplunk: expect.stringMatching(/^\d+\.\d+\.\d+/),
+          },
+        })
+      );
+    });
+  });
+
+  describe('per-call meta', () => {
+    it('overrides the splunkMeta for a single event', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkMeta: { index: 'main', host: 'my host' },
+      });
+      logger.info('foo', { bar: 'baz' }, { index: 'audit', time: 123 });
+      logger.info('qux');
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({ index: 'audit', time: 123, host: 'my host' })
+      );
+      expect(logs[0].logs[1]).toEqual(
+        expect.objectContaining({ index: 'main' })
+      );
+    });
+
+    it('takes precedence over child meta overrides', async () => {
+      const logger = Logger.create(config);
+      const child = logger.child({}, { index: 'child', sourcetype: 'child' });
+      child.info('foo', undefined, { index: 'call', fields: { a: 1 } });
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({
+          index: 'call',
+          sourcetype: 'child',
+          fields: expect.objectContaining({ a: 1 }),
+        })
+      );
+    });
+  });
+
+  describe('routes', () => {
+    it('applies the meta of the first matching route', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkMeta: { index: 'main' },
+        routes: [
+          { eventName: /^audit\./, meta: { index: 'audit' } },
+          { logType: 'debug', meta: { index: 'debug', sourcetype: 'noise' } },
+          { logType: 'debug', meta: { index: 'never' } },
+        ],
+      });
+      logger.info('audit.login');
+      logger.debug('cache.miss');
+      logger.info('page.view');
+      await logger.flush();
+
+      expect(logs).toHaveLength(1);
+      expect(logs[0].logs).toEqual([
+        expect.objectContaining({ index: 'audit' }),
+        expect.objectContaining({ index: 'debug', sourcetype: 'noise' }),
+        expect.objectContaining({ index: 'main' }),
+      ]);
+    });
+
+    it('lets per-call meta override the route', async () => {
+      const logger = Logger.create({
+        ...config,
+        routes: [{ meta: { index: 'routed', sourcetype: 'routed' } }],
+      });
+      logger.info('foo', undefined, { index: 'call' });
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({ index: 'call', sourcetype: 'routed' })
+      );
+    });
+
+    it('routes with a predicate on the event', async () => {
+      const logger = Logger.create({
+        ...config,
+        routes: [
+          { test: event => event.tenant === 'acme', meta: { index: 'acme' } },
+        ],
+      });
+      logger.child({ tenant: 'acme' }).info('foo');
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({ index: 'acme' })
+      );
+    });
+
+    it('sends events to a different HEC endpoint and token', async () => {
+      const logger = Logger.create({
+        ...config,
+        routes: [
+          {
+            logType: 'error',
+            splunkUrl: 'http://audit-splunk',
+            authToken: 'AUDIT-TOKEN',
+          },
+        ],
+      });
+      logger.info('foo');
+      logger.error('bar');
+      await logger.flush();
+
+      expect(logs).toEqual([
+        expect.objectContaining({
+          url: 'http://my-splunk-endpoint',
+          logs: [
+            expect.objectContaining({
+              event: expect.objectContaining({ eventName: 'foo' }),
+            }),
+          ],
+        }),
+        expect.objectContaining({
+          url: 'http://audit-splunk',
+          requestConfig: expect.objectContaining({
+            headers: expect.objectContaining({
+              Authorization: 'Splunk AUDIT-TOKEN',
+            }),
+          }),
+          logs: [
+            expect.objectContaining({
+              event: expect.objectContaining({ eventName: 'bar' }),
+            }),
+          ],
+        }),
+      ]);
+    });
+
+    it('sends events to a different transport', async () => {
+      const audit = new MemoryTransport();
+      const logger = Logger.create({
+        ...config,
+        routes: [{ eventName: /^audit\./, transport: audit }],
+      });
+      logger.info('audit.login');
+      logger.info('page.view');
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'page.view' }]);
+      expect(audit.events).toEqual([
+        expect.objectContaining({
+          event: expect.objectContaining({ eventName: 'audit.login' }),
+        }),
+      ]);
+    });
+
+    it('shares a destination between routes to the same transport', async () => {
+      const audit = new MemoryTransport();
+      jest.spyOn(audit, 'send');
+      const logger = Logger.create({
+        ...config,
+        routes: [
+          { logType: 'warn', transport: audit },
+          { logType: 'error', transport: audit },
+        ],
+      });
+      logger.warn('foo');
+      logger.error('bar');
+      await logger.flush();
+
+      expect(audit.send).toHaveBeenCalledTimes(1);
+      expect(audit.events).toHaveLength(2);
+    });
+
+    it('buffers each destination separately', async () => {
+      const audit = new MemoryTransport();
+      const logger = Logger.create({
+        ...config,
+        maxBuffer: 2,
+        routes: [{ logType: 'error', transport: audit }],
+      });
+      logger.error('one');
+      logger.info('two');
+      logger.error('three');
+
+      expect(audit.events).toHaveLength(2);
+      expect(logs).toHaveLength(0);
+      expect(logger.stats().bufferSize).toBe(1);
+    });
+
+    it('retries each destination separately', async () => {
+      const audit = new MemoryTransport();
+      jest.spyOn(audit, 'send').mockResolvedValueOnce({
+        error: new KersplunkError('Nope', { retryable: true }),
+      });
+      const logger = Logger.create({
+        ...config,
+        autoRetryDuration: 1000,
+        routes: [{ logType: 'error', transport: audit }],
+      });
+      logger.info('foo');
+      logger.error('bar');
+      await logger.flush();
+      expect(audit.events).toHaveLength(0);
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+      await settle();
+
+      expect(logs).toHaveLength(0);
+      expect(audit.events).toHaveLength(1);
+    });
+
+    it('persists each destination separately', async () => {
+      const storage = new MemoryStorageAdapter();
+      const audit = new MemoryTransport();
+      const routes = [{ logType: 'error', transport: audit }];
+      const crashed = Logger.create({ ...config, storage, routes });
+      crashed.error('bar');
+      await settle();
+      jest.clearAllTimers();
+
+      expect(JSON.parse(storage.data!)).toEqual({
+        buffer: [],
+        pending: [[]],
+        routes: [
+          {
+            buffer: [expect.stringContaining('"eventName":"bar"')],
+            pending: [[]],
+          },
+        ],
+      });
+
+      const logger = Logger.create({ ...config, storage, routes });
+      await settle();
+      await logger.flush();
+
+      expect(logs).toHaveLength(0);
+      expect(audit.events).toEqual([
+        expect.objectContaining({
+          event: expect.objectContaining({ eventName: 'bar' }),
+        }),
+      ]);
+    });
+
+    it('reports and skips routes whose predicate throws', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({
+        ...config,
+        onError,
+        routes: [
+          {
+            test: () => {
+              throw new Error('Bad route');
+            },
+            meta: { index: 'never' },
+          },
+          { meta: { index: 'fallback' } },
+        ],
+      });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({ index: 'fallback' })
+      );
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Log route failed: Bad route' })
+      );
+    });
+
+    it('validates the log types of routes', () => {
+      expect(() =>
+        Logger.create({ ...config, routes: [{ logType: ['info', 'nope'] }] })
+      ).toThrow('Unknown log type "nope"');
+    });
+  });
+
+  describe('sampling', () => {
+    it('drops sampled out events before they are buffered', async () => {
+      const logger = Logger.create({
+        ...config,
+        sampling: { rules: [{ logType: 'debug', percent: 0 }] },
+      });
+      logger.debug('scroll:position');
+      logger.info('page.view');
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'page.view' }]);
+      expect(logger.stats()).toEqual(
+        expect.objectContaining({ buffered: 1, sampled: 1, rateLimited: 0 })
+      );
+    });
+
+    it('samples by a field of the child context', async () => {
+      const logger = Logger.create({
+        ...config,
+        sampling: { rules: [{ percent: 50, key: 'sessionId' }] },
+      });
+      const session = logger.child({ sessionId: 'abc' });
+      session.info('one');
+      session.info('two');
+      session.info('three');
+      await logger.flush();
+
+      // The whole session is either kept or sampled out
+      expect([0, 3]).toContain(logger.stats().sampled);
+    });
+
+    it('reports rules whose test throws and keeps the event', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({
+        ...config,
+        onError,
+        sampling: { rules: [{ test: (e: any) => e.foo.bar, percent: 0 }] },
+      });
+      logger.info('page.view');
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'page.view' }]);
+      expect(onError.mock.calls[0][0]).toEqual(
+        expect.objectContaining({
+          message: expect.stringMatching(/^Sampling rule failed: /),
+          retryable: false,
+        })
+      );
+    });
+
+    it('drops and counts events over the rate limit', async () => {
+      const logger = Logger.create({
+        ...config,
+        sampling: { rateLimits: [{ eventName: /^scroll/, limit: 1 }] },
+      });
+      logger.debug('scroll:position');
+      logger.debug('scroll:position');
+      logger.info('page.view');
+      await logger.flush();
+
+      expectToHaveLogged([
+        { eventName: 'scroll:position' },
+        { eventName: 'page.view' },
+      ]);
+      expect(logger.stats().rateLimited).toBe(1);
+    });
+
+    it('logs a summary of the dropped events', async () => {
+      const logger = Logger.create({
+        ...config,
+        sampling: {
+          rateLimits: [{ limit: 1 }],
+          summaryInterval: 5000,
+          summaryLogType: 'warn',
+        },
+      });
+      logger.debug('scroll:position');
+      logger.debug('scroll:position');
+      await logger.flush();
+      logs.length = 0;
+      jest.advanceTimersByTime(5000);
+      await logger.flush();
+
+      expectToHaveLogged([
+        {
+          logType: 'warn',
+          eventName: 'kersplunk.suppressed',
+          sampled: 0,
+          rateLimited: 1,
+          events: { 'scroll:position': { sampled: 0, rateLimited: 1 } },
+        },
+      ]);
+    });
+
+    it('logs the summary when closed', async () => {
+      const logger = Logger.create({
+        ...config,
+        sampling: { rules: [{ percent: 0 }] },
+      });
+      logger.info('foo');
+      await logger.close();
+
+      expectToHaveLogged([
+        { logType: 'info', eventName: 'kersplunk.suppressed', sampled: 1 },
+      ]);
+    });
+
+    it('validates the log types of the rules', () => {
+      expect(() =>
+        Logger.create({
+          ...config,
+          sampling: { rules: [{ logType: 'nope', percent: 10 }] },
+        })
+      ).toThrow('Unknown log type "nope"');
+      expect(() =>
+        Logger.create({ ...config, sampling: { summaryLogType: 'nope' } })
+      ).toThrow('Unknown log type "nope"');
+    });
+  });
+
+  describe('interceptors', () => {
+    it('modifies the outgoing log details with intercept return', async () => {
+      const logger = Logger.create({
+        ...config,
+        interceptor: originalDetails => ({
+          ...originalDetails,
+          newDetails: 'bar',
+        }),
+      });
+      logger.info('one', { originalDetails: 'foo' });
+      await logger.flush();
+
+      expectToHaveLogged([
+        { eventName: 'one', originalDetails: 'foo', newDetails: 'bar' },
+      ]);
+    });
+
+    it('can be set after the logger is created', async () => {
+      const logger = Logger.create(config);
+      logger.interceptor = originalDetails => ({
+        ...originalDetails,
+        newDetails: 'bar',
+      });
+      logger.info('one', { originalDetails: 'foo' });
+      await logger.flush();
+
+      expectToHaveLogged([
+        { eventName: 'one', originalDetails: 'foo', newDetails: 'bar' },
+      ]);
+    });
+  });
+
+  describe('time', () => {
+    const mockClock = (...times: number[]) =>
+      times.forEach(time =>
+        jest.spyOn(clockModule, 'now').mockReturnValueOnce(time)
+      );
+
+    it('logs the duration when the timer ends', async () => {
+      mockClock(1000, 1250);
+      const logger = Logger.create(config);
+      const timer = logger.time('report:generate', { reportId: 1 });
+
+      expect(timer.end({ rows: 10 })).toBe(250);
+      await logger.flush();
+      expectToHaveLogged([
+        {
+          logType: 'info',
+          eventName: 'report:generate',
+          reportId: 1,
+          rows: 10,
+          durationMs: 250,
+          outcome: 'success',
+        },
+      ]);
+    });
+
+    it('logs failures', async () => {
+      mockClock(1000, 1100);
+      const logger = Logger.create(config);
+      logger.time('report:generate').fail(new Error('Boom!'));
+      await logger.flush();
+
+      expectToHaveLogged([
+        {
+          logType: 'error',
+          eventName: 'report:generate',
+          durationMs: 100,
+          outcome: 'failure',
+          error: expect.objectContaining({ message: 'Boom!' }),
+        },
+      ]);
+    });
+
+    it('only logs once', async () => {
+      mockClock(1000, 1100, 1200);
+      const logger = Logger.create(config);
+      const timer = logger.time('foo');
+      timer.end();
+
+      expect(timer.fail(new Error('Boom!'))).toBe(100);
+      await logger.flush();
+      expectToHaveLogged([{ eventName: 'foo', outcome: 'success' }]);
+    });
+
+    it('uses the configured log types', async () => {
+      const logger = Logger.create(
+        { ...config, timerLogTypes: { success: 'trace', failure: 'alarm' } },
+        'trace',
+        'alarm'
+      );
+      logger.time('one').end();
+      logger.time('two').fail('nope');
+      await logger.flush();
+
+      expectToHaveLogged([
+        { logType: 'trace', eventName: 'one' },
+        { logType: 'alarm', eventName: 'two' },
+      ]);
+    });
+
+    it('defaults to the first and last custom log types', async () => {
+      const logger = Logger.create(config, 'low', 'high');
+      logger.time('one').end();
+      logger.time('two').fail('nope');
+      await logger.flush();
+
+      expectToHaveLogged([
+        { logType: 'low', eventName: 'one' },
+        { logType: 'high', eventName: 'two' },
+      ]);
+    });
+
+    it('rejects unknown log types', () => {
+      expect(() =>
+        Logger.create({ ...config, timerLogTypes: { success: 'nope' } })
+      ).toThrow(
+        'Unknown log type "nope". Expected one of: debug, info, warn, error'
+      );
+    });
+
+    it('includes the context of child loggers', async () => {
+      const logger = Logger.create(config);
+      logger.child({ requestId: 'abc' }).time('foo').end();
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'foo', requestId: 'abc' }]);
+    });
+  });
+
+  describe('span', () => {
+    const traceparent =
+      '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    it('adds the trace and span IDs to its events', async () => {
+      const logger = Logger.create(config);
+      const span = logger.span('checkout');
+      span.info('cart:loaded');
+      span.end();
+      await logger.flush();
+
+      expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(span.traceparent).toBe(`00-${span.traceId}-${span.spanId}-01`);
+      expectToHaveLogged([
+        {
+          eventName: 'cart:loaded',
+          traceId: span.traceId,
+          spanId: span.spanId,
+        },
+        {
+          eventName: 'checkout',
+          traceId: span.traceId,
+          spanId: span.spanId,
+          outcome: 'success',
+        },
+      ]);
+    });
+
+    it('continues an incoming trace', async () => {
+      const logger = Logger.create(config);
+      const span = logger.span('request', { traceparent });
+      span.info('foo');
+      await logger.flush();
+
+      expect(span.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+      expect(span.parentSpanId).toBe('00f067aa0ba902b7');
+      expectToHaveLogged([
+        {
+          traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+          spanId: span.spanId,
+          parentSpanId: '00f067aa0ba902b7',
+        },
+      ]);
+    });
+
+    it('propagates the trace to nested spans and children', async () => {
+      const logger = Logger.create(config);
+      const span = logger.span('request');
+      const nested = span.child({ userId: 1 }).span('db:query');
+      nested.end();
+      await logger.flush();
+
+      expect(nested.traceId).toBe(span.traceId);
+      expect(nested.parentSpanId).toBe(span.spanId);
+      expectToHaveLogged([
+        {
+          eventName: 'db:query',
+          userId: 1,
+          traceId: span.traceId,
+          spanId: nested.spanId,
+          parentSpanId: span.spanId,
+        },
+      ]);
+    });
+  });
+
+  describe('metrics', () => {
+    it('sends metric events', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkMeta: { index: 'main', host: 'web-1' },
+        metrics: { index: 'metrics', sourcetype: 'app:metrics' },
+      });
+      logger.metric('cpu', 12.5, { region: 'us-west' });
+      await logger.flush();
+
+      expect(logs[0].logs).toEqual([
+        expect.objectContaining({
+          host: 'web-1',
+          source: `kersplunk-${version}`,
+          index: 'metrics',
+          sourcetype: 'app:metrics',
+          event: 'metric',
+          fields: {
+            kersplunk: version,
+            region: 'us-west',
+            'metric_name:cpu': 12.5,
+          },
+        }),
+      ]);
+    });
+
+    it('sends several measurements as one event', async () => {
+      const logger = Logger.create(config);
+      logger.metrics({ cpu: 12.5, mem: 1024 });
+      await logger.flush();
+
+      expect(logs[0].logs[0].fields).toEqual(
+        expect.objectContaining({
+          'metric_name:cpu': 12.5,
+          'metric_name:mem': 1024,
+        })
+      );
+    });
+
+    it('aggregates counters and gauges for the interval', async () => {
+      const logger = Logger.create({ ...config, metrics: { interval: 5000 } });
+      const requests = logger.counter('requests', { route: '/' });
+      requests.increment();
+      requests.increment();
+      logger.child({}).gauge('connections', { route: '/' }).set(7);
+      jest.advanceTimersByTime(5000);
+      await logger.flush();
+
+      expect(logs).toHaveLength(1);
+      expect(logs[0].logs[0].fields).toEqual({
+        kersplunk: version,
+        route: '/',
+        'metric_name:requests': 2,
+        'metric_name:connections': 7,
+      });
+    });
+
+    it('sends aggregated metrics when closed', async () => {
+      const logger = Logger.create(config);
+      logger.counter('requests').increment();
+      await logger.close();
+
+      expect(logs[0].logs[0].fields).toEqual(
+        expect.objectContaining({ 'metric_name:requests': 1 })
+      );
+    });
+
+    it('does not send metrics while disabled', async () => {
+      const logger = Logger.create({ ...config, enabled: false });
+      logger.metric('cpu', 1);
+      await logger.flush();
+
+      expect(logs).toHaveLength(0);
+    });
+
+    it('retries failed metrics with the logs', async () => {
+      const logger = Logger.create({
+        ...config,
+        retryPolicy: { initialDelay: 1000, jitter: 0 },
+      });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!');
+      logger.metric('cpu', 1);
+      await logger.flush();
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+
+      expect(logs[0].logs[0].event).toBe('metric');
+    });
+
+    it('sends metrics to the event endpoint when logs use the raw endpoint', async () => {
+      const logger = Logger.create({
+        ...config,
+        splunkUrl: 'http://splunk/services/collector',
+        endpoint: 'raw',
+        splunkMeta: { source: 'app' },
+      });
+      logger.info('one');
+      logger.metric('cpu', 12.5, { region: 'us-west' });
+      await logger.flush();
+
+      expect(logs.map(({ url }) => url)).toEqual([
+        'http://splunk/services/collector/raw?source=app&sourcetype=_json',
+        'http://splunk/services/collector/event',
+      ]);
+      expect(logs[1].logs).toEqual([
+        expect.objectContaining({
+          event: 'metric',
+          fields: expect.objectContaining({
+            region: 'us-west',
+            'metric_name:cpu': 12.5,
+          }),
+        }),
+      ]);
+    });
+
+    it('drops and reports metrics larger than maxEventBytes', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({ ...config, maxEventBytes: 300, onError });
+      logger.metric('cpu', 1, { padding: 'x'.repeat(1000) });
+      logger.metric('mem', 2);
+      await logger.flush();
+
+      expect(logs[0].logs).toEqual([
+        expect.objectContaining({
+          event: 'metric',
+          fields: expect.objectContaining({ 'metric_name:mem': 2 }),
+        }),
+      ]);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Dropped an event that does not fit in 300 bytes',
+        })
+      );
+    });
+  });
+
+  describe('use', () => {
+    it('modifies events', async () => {
+      const logger = Logger.create(config).use(entry => ({
+        ...entry,
+        event: { ...entry.event, userId: 'abc' },
+      }));
+      logger.info('foo');
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'foo', userId: 'abc' }]);
+    });
+
+    it('runs the stages in order after the interceptor', async () => {
+      const logger = Logger.create({
+        ...config,
+        interceptor: event => ({ ...event, stages: ['interceptor'] }),
+      });
+      logger
+        .use(({ event, meta }) => ({
+          meta,
+          event: { ...event, stages: [...(event.stages as string[]), 'one'] },
+        }))
+        .use(({ event, meta }) => ({
+          meta,
+          event: { ...event, stages: [...(event.stages as string[]), 'two'] },
+        }));
+      logger.info('foo');
+      await logger.flush();
+
+      expectToHaveLogged([{ stages: ['interceptor', 'one', 'two'] }]);
+    });
+
+    it('keeps logging after an async event fails to be buffered', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({ ...config, onError }).use(
+        async entry => entry
+      );
+      jest.spyOn(logger as any, '_addToBuffer').mockImplementationOnce(() => {
+        throw new Error('Oops');
+      });
+      logger.info('broken');
+      logger.info('async');
+      await logger.flush();
+      expect(onError.mock.calls[0][0]).toEqual(
+        expect.objectContaining({ message: 'Log event failed: Oops' })
+      );
+      expectToHaveLogged([{ eventName: 'async' }]);
+
+      logs.length = 0;
+      logger.info('later');
+      await expect(logger.close()).resolves.toEqual(
+        expect.objectContaining({ delivered: { batches: 1, events: 1 } })
+      );
+      expectToHaveLogged([{ eventName: 'later' }]);
+    });
+
+    it('drops events', async () => {
+      const logger = Logger.create(config).use(entry =>
+        entry.event.eventName === 'noisy' ? DROP : entry
+      );
+      logger.info('noisy');
+      logger.info('useful');
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'useful' }]);
+    });
+
+    it('drops events when the interceptor returns nothing', async () => {
+      const logger = Logger.create({ ...config, interceptor: () => undefined });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs).toHaveLength(0);
+    });
+
+    it('passes events along unchanged when a stage returns nothing', async () => {
+      const seen: string[] = [];
+      const logger = Logger.create(config).use(entry => {
+        seen.push(entry.event.eventName);
+      });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(seen).toEqual(['foo']);
+      expectToHaveLogged([{ eventName: 'foo' }]);
+    });
+
+    it('changes the SplunkMeta of an event', async () => {
+      const logger = Logger.create(config).use(entry => ({
+        ...entry,
+        meta: {
+          ...entry.meta,
+          index: entry.event.logType === 'error' ? 'errors' : 'main',
+        },
+      }));
+      logger.info('foo');
+      logger.error('bar');
+      await logger.flush();
+
+      expect(logs[0].logs.map(log => log.index)).toEqual(['main', 'errors']);
+    });
+
+    it('supports async stages and keeps events in order', async () => {
+      jest.useRealTimers();
+      const logger = Logger.create(config).use(async entry =>
+        entry.event.eventName === 'slow'
+          ? new Promise<typeof entry>(resolve =>
+              setTimeout(() => resolve(entry), 10)
+            )
+          : entry
+      );
+      logger.info('slow');
+      logger.info('fast');
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'slow' }, { eventName: 'fast' }]);
+    });
+
+    it('reports stages that throw and skips them', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({ ...config, onError }).use(() => {
+        throw new Error('Boom!');
+      });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Log middleware failed: Boom!' })
+      );
+      expectToHaveLogged([{ eventName: 'foo' }]);
+    });
+
+    it('applies middleware added to a child to the root logger', async () => {
+      const logger = Logger.create(config);
+      logger.child({}).use(entry => ({
+        ...entry,
+        event: { ...entry.event, tagged: true },
+      }));
+      logger.info('foo');
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'foo', tagged: true }]);
+    });
+  });
+
+  describe('redact', () => {
+    it('redacts event details', async () => {
+      const logger = Logger.create({
+        ...config,
+        redact: {
+          rules: [
+            { keys: ['password'] },
+            { pattern: REDACTION_PATTERNS.email },
+          ],
+        },
+      });
+      logger.info('user:login', {
+        user: { email: 'bob@example.com', password: 'hunter2' },
+      });
+      await logger.flush();
+
+      expectToHaveLogged([
+        {
+          eventName: 'user:login',
+          user: { email: '[REDACTED]', password: '[REDACTED]' },
+        },
+      ]);
+    });
+
+    it('redacts context and details added by the interceptor', async () => {
+      const logger = Logger.create({
+        ...config,
+        redact: { rules: [{ keys: ['token'] }] },
+        interceptor: details => ({ ...details, token: 'from-interceptor' }),
+      });
+      logger.child({ session: { token: 'from-context' } }).info('foo');
+      await logger.flush();
+
+      expectToHaveLogged([
+        { session: { token: '[REDACTED]' }, token: '[REDACTED]' },
+      ]);
+    });
+
+    it('redacts splunkMeta fields', async () => {
+      const logger = Logger.create({
+        ...config,
+        redact: { rules: [{ keys: ['email'], action: 'remove' }] },
+        splunkMeta: { fields: { email: 'bob@example.com', team: 'a' } },
+      });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs[0].logs[0].fields).toEqual({ team: 'a', kersplunk: version });
+    });
+
+    it('masks values and reports the error when a rule throws', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({
+        ...config,
+        onError,
+        redact: {
+          rules: [
+            (value, path) => {
+              if (path[0] === 'card') {
+                throw new Error('Bad rule');
+              }
+              return value;
+            },
+          ],
+        },
+      });
+      logger.info('checkout', { card: '4111 1111 1111 1111' });
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'checkout', card: '[REDACTED]' }]);
+      expect(onError.mock.calls[0][0]).toEqual(
+        expect.objectContaining({
+          message: 'Redaction rule failed: Bad rule',
+          retryable: false,
+        })
+      );
+    });
+  });
+
+  describe('buffering', () => {
+    it('automatically flushes logs when the buffer is full', () => {
+      const logger = Logger.create({ ...config, maxBuffer: 3 });
+      logger.info('group1:one');
+      logger.info('group1:two');
+      logger.info('group1:three');
+      // Buffer max hit
+      logger.info('group2:four');
+      logger.info('group2:five');
+      logger.info('group2:six');
+
+      expectToHaveLogged(
+        [
+          { eventName: 'group1:one' },
+          { eventName: 'group1:two' },
+          { eventName: 'group1:three' },
+        ],
+        [
+          { eventName: 'group2:four' },
+          { eventName: 'group2:five' },
+          { eventName: 'group2:six' },
+        ]
+      );
+    });
+  });
+
+  describe('maxBatchBytes', () => {
+    it('flushes early when the byte budget is reached', () => {
+      const logger = Logger.create({ ...config, maxBatchBytes: 800 });
+      logger.info('one', { padding: 'x'.repeat(200) });
+      logger.info('two', { padding: 'x'.repeat(200) });
+      expect(logs).toHaveLength(0);
+      logger.info('three', { padding: 'x'.repeat(200) });
+
+      expectToHaveLogged([{ eventName: 'one' }, { eventName: 'two' }]);
+    });
+
+    it('keeps every request within the byte budget', async () => {
+      const logger = Logger.create({ ...config, maxBatchBytes: 600 });
+      logger.info('one', { padding: 'x'.repeat(100) });
+      logger.info('two', { padding: 'x'.repeat(100) });
+      logger.info('three', { padding: 'x'.repeat(100) });
+      await logger.flush();
+
+      expectToHaveLogged(
+        [{ eventName: 'one' }, { eventName: 'two' }],
+        [{ eventName: 'three' }]
+      );
+      logs.forEach(({ requestConfig }) =>
+        expect(requestConfig.body.length).toBeLessThanOrEqual(600)
+      );
+    });
+  });
+
+  describe('maxEventBytes', () => {
+    it('truncates oversized events', async () => {
+      const logger = Logger.create({ ...config, maxEventBytes: 300 });
+      logger.error('huge', { stack: 'x'.repeat(1000) });
+      logger.info('small');
+      await logger.flush();
+
+      expectToHaveLogged([
+        {
+          eventName: 'huge',
+          stack: expect.stringMatching(/\.\.\.\[truncated\]$/),
+          _truncated: ['stack'],
+        },
+        { eventName: 'small' },
+      ]);
+      expect(
+        logs[0].requestConfig.body.split('\n')[0].length
+      ).toBeLessThanOrEqual(300);
+    });
+
+    it('removes large meta fields', async () => {
+      const logger = Logger.create({
+        ...config,
+        maxEventBytes: 1000,
+        splunkMeta: { fields: { big: 'x'.repeat(15000) } },
+      });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs[0].requestConfig.body.length).toBeLessThanOrEqual(1000);
+      expect(logs[0].logs[0].fields).not.toHaveProperty('big');
+      expect(logs[0].logs[0].event._truncated).toEqual([
+        'splunkMeta.fields.big',
+      ]);
+    });
+
+    it('drops and reports events that do not fit once truncated', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({ ...config, maxEventBytes: 300, onError });
+      logger.info('x'.repeat(1000));
+      logger.info('small');
+      await logger.flush();
+
+      expectToHaveLogged([{ eventName: 'small' }]);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Dropped an event that does not fit in 300 bytes',
+        })
+      );
+    });
+  });
+
+  describe('throttling', () => {
+    it('automatically flushes logs when the the throttleDuration is met', () => {
+      const logger = Logger.create({
+        ...config,
+        throttleDuration: 2000,
+        maxBuffer: 3,
+      });
+      logger.info('one');
+      logger.info('two');
+      jest.advanceTimersByTime(2001);
+
+      expectToHaveLogged([{ eventName: 'one' }, { eventName: 'two' }]);
+    });
+
+    it('does not log before the buffer is full or the duration is met', () => {
+      const logger = Logger.create({
+        ...config,
+        throttleDuration: 2000,
+        maxBuffer: 3,
+      });
+      logger.info('nope:one');
+      logger.info('nope:two');
+      jest.advanceTimersByTime(1000);
+
+      expect(logs).toHaveLength(0);
+    });
+
+    it('resets the timer when a new log entry is made', () => {
+      const logger = Logger.create({
+        ...config,
+        throttleDuration: 2000,
+        maxBuffer: 3,
+      });
+      logger.info('nope:one');
+      jest.advanceTimersByTime(1500);
+      logger.info('nope:two');
+      jest.advanceTimersByTime(1500);
+
+      expect(logs).toHaveLength(0);
+    });
+
+    it('resets the timer when flushed', async () => {
+      const logger = Logger.create({
+        ...config,
+        throttleDuration: 2000,
+        maxBuffer: 3,
+      });
+      logger.info('yup:one');
+      logger.info('yup:two');
+      jest.advanceTimersByTime(1000);
+      await logger.flush();
+      logger.info('nope:one'); // Should not be logged yet
+      jest.advanceTimersByTime(1900);
+
+      expectToHaveLogged([{ eventName: 'yup:one' }, { eventName: 'yup:two' }]);
+    });
+  });
+
+  describe('authToken', () => {
+    const authorization = (intercepted: InterceptedLogs) =>
+      intercepted.requestConfig.headers.Authorization;
+
+    it('resolves the token from a function once', async () => {
+      const authToken = jest.fn().mockResolvedValue('ASYNC-TOKEN');
+      const logger = Logger.create({ ...config, authToken });
+      logger.info('foo');
+      await logger.flush();
+      logger.info('bar');
+      await logger.flush();
+
+      expect(logs.map(authorization)).toEqual([
+        'Splunk ASYNC-TOKEN',
+        'Splunk ASYNC-TOKEN',
+      ]);
+      expect(authToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('refreshes the token and retries once when HEC rejects it', async () => {
+      const onError = jest.fn();
+      const authToken = jest
+        .fn()
+        .mockResolvedValueOnce('OLD-TOKEN')
+        .mockReturnValueOnce('NEW-TOKEN');
+      const logger = Logger.create({ ...config, authToken, onError });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockResolvedValueOnce(
+          hecResponse(403, { text: 'Invalid token', code: 4 })
+        );
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs.map(authorization)).toEqual(['Splunk NEW-TOKEN']);
+      expect(onError).not.toHaveBeenCalled();
+      expect(logger.stats()).toEqual(expect.objectContaining({ sent: 1 }));
+    });
+
+    it('drops the batch when the new token is rejected too', async () => {
+      const onError = jest.fn();
+      const authToken = jest.fn().mockResolvedValue('BAD-TOKEN');
+      const logger = Logger.create({ ...config, authToken, onError });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockResolvedValueOnce(hecResponse(401, { text: 'Token is required' }))
+        .mockResolvedValueOnce(hecResponse(401, { text: 'Token is required' }));
+      logger.info('foo');
+      await logger.flush();
+
+      expect(authToken).toHaveBeenCalledTimes(2);
+      expect(onError.mock.calls[0][0]).toEqual(
+        expect.objectContaining({ status: 401, retryable: false })
+      );
+      expect(logger.stats()).toEqual(
+        expect.objectContaining({ sent: 0, dropped: 1 })
+      );
+    });
+
+    it('retries when the token can not be resolved', async () => {
+      const onError = jest.fn();
+      const authToken = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Vault is sealed'))
+        .mockResolvedValue('VAULT-TOKEN');
+      const logger = Logger.create({
+        ...config,
+        authToken,
+        onError,
+        autoRetryDuration: 1000,
+      });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(logs).toHaveLength(0);
+      expect(onError.mock.calls[0][0]).toEqual(
+        expect.objectContaining({
+          message: 'Unable to get the HEC auth token: Vault is sealed',
+          retryable: true,
+        })
+      );
+      jest.advanceTimersByTime(1000);
+      await settle();
+
+      expect(logs.map(authorization)).toEqual(['Splunk VAULT-TOKEN']);
+    });
+  });
+
+  describe('autoRetry', () => {
+    it('retries the flush when fetch fails', async () => {
+      const logger = Logger.create({ ...config, autoRetryDuration: 1000 });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!');
+      logger.info('yup:one');
+      await logger.flush();
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+
+      expectToHaveLogged([{ eventName: 'yup:one' }]);
+    });
+
+    it('stops retrying when fetch succeeds', async () => {
+      const logger = Logger.create({ ...config, autoRetryDuration: 1000 });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!');
+      logger.info('yup:one');
+      await logger.flush();
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+      jest.advanceTimersByTime(1000);
+      jest.advanceTimersByTime(1000);
+
+      expectToHaveLogged([{ eventName: 'yup:one' }]);
+    });
+
+    it('retries the flush when HEC responds with a retryable error', async () => {
+      const logger = Logger.create({ ...config, autoRetryDuration: 1000 });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockResolvedValueOnce(
+          hecResponse(503, { text: 'Server is busy', code: 9 })
+        );
+      logger.info('yup:one');
+      await logger.flush();
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+
+      expectToHaveLogged([{ eventName: 'yup:one' }]);
+    });
+
+    it('does not retry when HEC responds with a fatal error', async () => {
       const logger = Logger.create({ ...config, autoRetryDuration: 1000 });
       jest
         .spyOn(fetchModule, 'fetch')
-        .mockRejectedValueOnce('Oops, no network!');
-      logger.info('yup:one');
+        .mockResolvedValueOnce(
+          hecResponse(403, { text: 'Invalid token', code: 4 })
+        );
+      logger.info('nope:one');
+      await logger.flush();
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+
+      expect(logs).toHaveLength(0);
+    });
+
+    it('does not retry when autoRetry is false', async () => {
+      const logger = Logger.create({
+        ...config,
+        autoRetry: false,
+        autoRetryDuration: 1000,
+      });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!');
+      logger.info('yup:one');
+      await logger.flush();
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+
+      expect(logs).toHaveLength(0);
+    });
+  });
+
+  describe('retryPolicy', () => {
+    it('backs off exponentially between retries', async () => {
+      const logger = Logger.create({
+        ...config,
+        retryPolicy: { initialDelay: 1000, multiplier: 2, jitter: 0 },
+      });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!')
+        .mockRejectedValueOnce('Still no network!');
+      logger.info('yup:one');
+      await logger.flush();
+      jest.advanceTimersByTime(1000);
+      await settle();
+      logs.length = 0;
+      jest.advanceTimersByTime(1999);
+      expect(logs).toHaveLength(0);
+      jest.advanceTimersByTime(1);
+
+      expectToHaveLogged([{ eventName: 'yup:one' }]);
+    });
+
+    it('drops the batch after maxAttempts', async () => {
+      const onDrop = jest.fn();
+      const logger = Logger.create({
+        ...config,
+        onDrop,
+        retryPolicy: { maxAttempts: 1 },
+      });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!');
+      logger.info('nope:one');
+      await logger.flush();
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+
+      expect(logs).toHaveLength(0);
+      expect(onDrop).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: 'retries-exhausted',
+          events: 1,
+          attempts: 1,
+          error: expect.any(KersplunkError),
+        })
+      );
+    });
+
+    it('reports batches dropped from an overflowing retry queue', async () => {
+      const onDrop = jest.fn();
+      const logger = Logger.create({
+        ...config,
+        onDrop,
+        retryPolicy: { maxQueueBatches: 1 },
+      });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!')
+        .mockRejectedValueOnce('Oops, no network!');
+      logger.info('nope:one');
+      logger.info('nope:two');
+      await logger.flush();
+      logger.info('yup:three');
+      await logger.flush();
+      logs.length = 0;
+      jest.advanceTimersByTime(1000);
+
+      expectToHaveLogged([{ eventName: 'yup:three' }]);
+      expect(onDrop).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'queue-overflow', events: 2 })
+      );
+    });
+
+    it('reports batches dropped because of fatal errors', async () => {
+      const onDrop = jest.fn();
+      const logger = Logger.create({ ...config, onDrop });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockResolvedValueOnce(
+          hecResponse(403, { text: 'Invalid token', code: 4 })
+        );
+      logger.info('nope:one');
+      await logger.flush();
+
+      expect(onDrop).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'fatal-error', attempts: 1 })
+      );
+    });
+  });
+
+  describe('transport', () => {
+    it('sends logs through a custom transport', async () => {
+      const transport = new MemoryTransport();
+      const logger = Logger.create({ transport });
+      logger.info('foo', { bar: 'baz' });
+      await logger.flush();
+
+      expect(logs).toHaveLength(0);
+      expect(transport.events).toEqual([
+        expect.objectContaining({
+          event: { logType: 'info', eventName: 'foo', bar: 'baz' },
+        }),
+      ]);
+    });
+
+    it('retries each transport of a fanout separately', async () => {
+      const healthy = new MemoryTransport();
+      const flaky = new MemoryTransport();
+      jest.spyOn(flaky, 'send').mockResolvedValueOnce({
+        error: new KersplunkError('Nope', { retryable: true }),
+      });
+      const logger = Logger.create({
+        transport: new FanoutTransport([healthy, flaky]),
+        autoRetryDuration: 1000,
+      });
+      logger.info('foo');
+      await logger.flush();
+      expect(healthy.events).toHaveLength(1);
+      expect(flaky.events).toHaveLength(0);
+      jest.advanceTimersByTime(1000);
+      await settle();
+
+      expect(healthy.events).toHaveLength(1);
+      expect(flaky.events).toHaveLength(1);
+    });
+
+    it('retries transports that throw', async () => {
+      const onError = jest.fn();
+      const transport: Transport = {
+        send: jest
+          .fn()
+          .mockRejectedValueOnce(new Error('Boom!'))
+          .mockResolvedValue({}),
+      };
+      const logger = Logger.create({
+        transport,
+        onError,
+        autoRetryDuration: 1000,
+      });
+      logger.info('foo');
+      await logger.flush();
+      jest.advanceTimersByTime(1000);
+      await settle();
+
+      expect(transport.send).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Transport failed: Boom!' })
+      );
+    });
+
+    it('requires a transport or splunkUrl and authToken', () => {
+      expect(() => Logger.create({} as any)).toThrow(
+        'Either a transport or a splunkUrl and authToken must be configured'
+      );
+    });
+  });
+
+  describe('storage', () => {
+    it('persists buffered logs', async () => {
+      const storage = new MemoryStorageAdapter();
+      const logger = Logger.create({ ...config, storage });
+      logger.info('foo');
+      await settle();
+
+      expect(JSON.parse(storage.data!)).toEqual({
+        buffer: [expect.stringContaining('"eventName":"foo"')],
+        pending: [[]],
+      });
+    });
+
+    it('persists batches waiting to be retried', async () => {
+      const storage = new MemoryStorageAdapter();
+      const logger = Logger.create({ ...config, storage });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!');
+      logger.info('foo');
+      await logger.flush();
+      await settle();
+
+      expect(JSON.parse(storage.data!)).toEqual({
+        buffer: [],
+        pending: [
+          [
+            expect.objectContaining({
+              body: expect.stringContaining('"eventName":"foo"'),
+              attempts: 1,
+            }),
+          ],
+        ],
+      });
+    });
+
+    it('clears batches once they are delivered', async () => {
+      const storage = new MemoryStorageAdapter();
+      const logger = Logger.create({ ...config, storage });
+      logger.info('foo');
+      await logger.flush();
+      await settle();
+
+      expect(JSON.parse(storage.data!)).toEqual({ buffer: [], pending: [[]] });
+    });
+
+    it('replays persisted logs when created', async () => {
+      const storage = new MemoryStorageAdapter();
+      const crashed = Logger.create({ ...config, storage });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!');
+      crashed.info('pending');
+      await crashed.flush();
+      crashed.info('buffered');
+      await settle();
+      jest.clearAllTimers();
+      logs.length = 0;
+
+      const logger = Logger.create({ ...config, storage });
+      await settle();
+      logger.info('new');
+      await logger.flush();
+
+      expectToHaveLogged(
+        [{ eventName: 'pending' }],
+        [{ eventName: 'buffered' }, { eventName: 'new' }]
+      );
+    });
+
+    it.each([
+      ['not JSON', '{'],
+      ['another version', '{"version":2}'],
+      ['an array', '[]'],
+      ['pending batches that are not arrays', '{"buffer":[],"pending":[1]}'],
+    ])('reports and discards persisted state that is %s', async (_, data) => {
+      const onError = jest.fn();
+      const storage = new MemoryStorageAdapter(data);
+      const logger = Logger.create({ ...config, storage, onError });
+      await settle();
+      logger.info('foo');
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Unable to restore persisted logs' })
+      );
+      await expect(logger.close()).resolves.toEqual(
+        expect.objectContaining({ delivered: { batches: 1, events: 1 } })
+      );
+      expect(JSON.parse(storage.data!)).toEqual({ buffer: [], pending: [[]] });
+    });
+
+    it('reports storage failures', async () => {
+      const onError = jest.fn();
+      const storage = new MemoryStorageAdapter();
+      jest.spyOn(storage, 'write').mockRejectedValue(new Error('Full!'));
+      const logger = Logger.create({ ...config, storage, onError });
+      logger.info('foo');
+      await settle();
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Unable to persist logs' })
+      );
+    });
+  });
+
+  describe('onError', () => {
+    it('reports network failures as retryable errors', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({ ...config, onError });
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce(new Error('Oops, no network!'));
+      logger.info('foo');
       await logger.flush();
-      logs.length = 0;
-      jest.advanceTimersByTime(1000);
 
-      expectToHaveLogged([{ eventName: 'yup:one' }]);
+      expect(onError).toHaveBeenCalledWith(expect.any(KersplunkError));
+      expect(onError.mock.calls[0][0]).toEqual(
+        expect.objectContaining({
+          message: 'Unable to reach Splunk HEC: Oops, no network!',
+          retryable: true,
+        })
+      );
     });
 
-    it('stops retrying when fetch succeeds', async () => {
-      const logger = Logger.create({ ...config, autoRetryDuration: 1000 });
+    it('reports parsed HEC errors', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({ ...config, onError });
+      jest.spyOn(fetchModule, 'fetch').mockResolvedValueOnce(
+        hecResponse(400, {
+          text: 'Incorrect index',
+          code: 7,
+          'invalid-event-number': 1,
+        })
+      );
+      logger.info('foo');
+      await logger.flush();
+
+      expect(onError.mock.calls[0][0]).toEqual(
+        expect.objectContaining({
+          message: 'Splunk HEC responded with 400: Incorrect index',
+          status: 400,
+          code: 7,
+          invalidEventNumber: 1,
+          retryable: false,
+        })
+      );
+    });
+
+    it('does not report successful submissions', async () => {
+      const onError = jest.fn();
+      const logger = Logger.create({ ...config, onError });
+      logger.info('foo');
+      await logger.flush();
+
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('keeps logging when the error handler throws', async () => {
+      const logger = Logger.create({
+        ...config,
+        autoRetryDuration: 1000,
+        onError: () => {
+          throw new Error('Bad handler');
+        },
+      });
       jest
         .spyOn(fetchModule, 'fetch')
         .mockRejectedValueOnce('Oops, no network!');
@@ -386,28 +2730,185 @@ describe('Logger', () => {
       await logger.flush();
       logs.length = 0;
       jest.advanceTimersByTime(1000);
-      jest.advanceTimersByTime(1000);
-      jest.advanceTimersByTime(1000);
 
       expectToHaveLogged([{ eventName: 'yup:one' }]);
     });
+  });
 
-    it('does not retry when autoRetry is false', async () => {
+  describe('stats', () => {
+    it('reports the current buffer', () => {
+      const logger = Logger.create(config);
+      logger.info('foo');
+      logger.info('bar');
+
+      expect(logger.stats()).toEqual(
+        expect.objectContaining({
+          buffered: 2,
+          bufferSize: 2,
+          bufferBytes: expect.any(Number),
+          flushes: 0,
+          sent: 0,
+        })
+      );
+      expect(logger.stats().bufferBytes).toBeGreaterThan(0);
+    });
+
+    it('counts delivered events and batches', async () => {
+      const logger = Logger.create(config);
+      logger.info('foo');
+      logger.info('bar');
+      await logger.flush();
+      logger.info('baz');
+      await logger.flush();
+
+      expect(logger.stats()).toEqual(
+        expect.objectContaining({
+          buffered: 3,
+          flushes: 2,
+          sent: 3,
+          sentBatches: 2,
+          bufferSize: 0,
+          bufferBytes: 0,
+          pendingBatches: 0,
+        })
+      );
+    });
+
+    it('counts retries, drops and errors', async () => {
       const logger = Logger.create({
         ...config,
-        autoRetry: false,
-        autoRetryDuration: 1000,
+        retryPolicy: { maxAttempts: 2 },
       });
       jest
         .spyOn(fetchModule, 'fetch')
-        .mockRejectedValueOnce('Oops, no network!');
-      logger.info('yup:one');
+        .mockRejectedValueOnce('Oops, no network!')
+        .mockRejectedValueOnce('Still no network!');
+      logger.info('nope:one');
       await logger.flush();
-      logs.length = 0;
+
+      expect(logger.stats()).toEqual(
+        expect.objectContaining({
+          retried: 1,
+          errors: 1,
+          pendingBatches: 1,
+          retryQueueBatches: 1,
+        })
+      );
       jest.advanceTimersByTime(1000);
-      await Promise.resolve();
+      await settle();
 
-      expect(logs).toHaveLength(0);
+      expect(logger.stats()).toEqual(
+        expect.objectContaining({
+          retried: 1,
+          errors: 2,
+          dropped: 1,
+          droppedBatches: 1,
+          sent: 0,
+          pendingBatches: 0,
+          retryQueueBatches: 0,
+        })
+      );
+    });
+
+    it('is shared with child loggers', () => {
+      const logger = Logger.create(config);
+      logger.child({ user: 'bob' }).info('foo');
+
+      expect(logger.stats().buffered).toBe(1);
+      expect(logger.child({}).stats().bufferSize).toBe(1);
+    });
+  });
+
+  describe('on', () => {
+    it('emits flush and sent events', async () => {
+      const logger = Logger.create(config);
+      const onFlush = jest.fn();
+      const onSent = jest.fn();
+      logger.on('flush', onFlush);
+      logger.on('sent', onSent);
+      logger.info('foo');
+      logger.info('bar');
+      await logger.flush();
+
+      expect(onFlush).toHaveBeenCalledWith({
+        batches: 1,
+        events: 2,
+        bytes: expect.any(Number),
+      });
+      expect(onSent).toHaveBeenCalledWith({
+        events: 2,
+        bytes: expect.any(Number),
+        attempts: 1,
+      });
+    });
+
+    it('does not emit flush when the buffer is empty', async () => {
+      const logger = Logger.create(config);
+      const onFlush = jest.fn();
+      logger.on('flush', onFlush);
+      await logger.flush();
+
+      expect(onFlush).not.toHaveBeenCalled();
+    });
+
+    it('emits retry and error events', async () => {
+      const logger = Logger.create(config);
+      const onRetry = jest.fn();
+      const onError = jest.fn();
+      logger.on('retry', onRetry);
+      logger.on('error', onError);
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockRejectedValueOnce('Oops, no network!');
+      logger.info('foo');
+      await logger.flush();
+
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          events: 1,
+          attempts: 1,
+          error: expect.any(KersplunkError),
+        })
+      );
+      expect(onError).toHaveBeenCalledWith(expect.any(KersplunkError));
+    });
+
+    it('emits drop events', async () => {
+      const logger = Logger.create(config);
+      const onDrop = jest.fn();
+      logger.on('drop', onDrop);
+      jest
+        .spyOn(fetchModule, 'fetch')
+        .mockResolvedValueOnce(
+          hecResponse(403, { text: 'Invalid token', code: 4 })
+        );
+      logger.info('nope:one');
+      await logger.flush();
+
+      expect(onDrop).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'fatal-error', events: 1 })
+      );
+    });
+
+    it('receives events from child loggers', async () => {
+      const logger = Logger.create(config);
+      const onSent = jest.fn();
+      logger.child({}).on('sent', onSent);
+      logger.info('foo');
+      await logger.flush();
+
+      expect(onSent).toHaveBeenCalled();
+    });
+
+    it('stops emitting once unsubscribed', async () => {
+      const logger = Logger.create(config);
+      const onSent = jest.fn();
+      const unsubscribe = logger.on('sent', onSent);
+      unsubscribe();
+      logger.info('foo');
+      await logger.flush();
+
+      expect(onSent).not.toHaveBeenCalled();
     });
   });
 
@@ -450,6 +2951,106 @@ describe('Logger', () => {
     });
   });
 
+  describe('configure', () => {
+    it('sends the next batch with the new HEC settings', async () => {
+      const logger = Logger.create(config);
+      logger.info('foo');
+      await logger.flush();
+      logger.configure({
+        splunkUrl: 'http://new-splunk-endpoint',
+        authToken: 'NEW-TOKEN',
+      });
+      logger.info('bar');
+      await logger.flush();
+
+      expect(logs.map(({ url }) => url)).toEqual([
+        'http://my-splunk-endpoint',
+        'http://new-splunk-endpoint',
+      ]);
+      expect(logs[1].requestConfig.headers).toEqual(
+        expect.objectContaining({ Authorization: 'Splunk NEW-TOKEN' })
+      );
+    });
+
+    it('applies buffer sizes and meta to the next events', () => {
+      const logger = Logger.create(config);
+      logger.configure({ maxBuffer: 1, splunkMeta: { index: 'audit' } });
+      logger.info('foo');
+
+      expect(logs).toHaveLength(1);
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({ index: 'audit' })
+      );
+    });
+
+    it('sends buffered events with the new HEC settings and their old meta', async () => {
+      const logger = Logger.create({ ...config, splunkMeta: { index: 'old' } });
+      logger.info('foo');
+      logger.configure({
+        splunkUrl: 'http://new-splunk-endpoint',
+        splunkMeta: { index: 'new' },
+      });
+      await logger.flush();
+
+      expect(logs[0].url).toBe('http://new-splunk-endpoint');
+      expect(logs[0].logs[0]).toEqual(
+        expect.objectContaining({ index: 'old' })
+      );
+    });
+
+    it('applies to children and their parent alike', () => {
+      const logger = Logger.create(config);
+      logger.child({ requestId: 1 }).configure({ enabled: false });
+      logger.info('foo');
+
+      expect(logger.stats().buffered).toBe(0);
+    });
+
+    it('keeps the HEC settings a route overrides', async () => {
+      const logger = Logger.create({
+        ...config,
+        routes: [{ eventName: 'audit', splunkUrl: 'http://audit-splunk' }],
+      });
+      logger.configure({
+        splunkUrl: 'http://new-splunk-endpoint',
+        authToken: 'NEW-TOKEN',
+      });
+      logger.info('audit');
+      await logger.flush();
+
+      expect(logs[0].url).toBe('http://audit-splunk');
+      expect(logs[0].requestConfig.headers).toEqual(
+        expect.objectContaining({ Authorization: 'Splunk NEW-TOKEN' })
+      );
+    });
+
+    it('rejects invalid settings without applying any', () => {
+      const logger = Logger.create(config);
+
+      expect(() =>
+        logger.configure({ maxBuffer: 1, throttleDuration: -1 })
+      ).toThrow(
+        'Invalid "throttleDuration", expected a number of milliseconds'
+      );
+      expect(() => logger.configure({ level: 'verbose' })).toThrow(
+        'Unknown log level "verbose"'
+      );
+      expect(() => logger.configure({ useAck: true } as any)).toThrow(
+        '"useAck" can not be changed once the logger has been created'
+      );
+      logger.info('foo');
+      expect(logs).toHaveLength(0);
+    });
+
+    it('rejects HEC settings when the logger uses a custom transport', () => {
+      const logger = Logger.create({ transport: new MemoryTransport() });
+
+      expect(() => logger.configure({ splunkUrl: 'http://splunk' })).toThrow(
+        'splunkUrl can only be configured when the logger sends to Splunk HEC'
+      );
+    });
+  });
+
   describe('logToConsole', () => {
     beforeEach(() => {
       jest.spyOn(console, 'log').mockImplementation(() => undefined);
@@ -477,6 +3078,37 @@ describe('Logger', () => {
       });
     });
 
+    describe('consoleLevel', () => {
+      it('only logs to the console at or above the consoleLevel', async () => {
+        const logger = Logger.create({
+          ...config,
+          logToConsole: true,
+          consoleLevel: 'warn',
+        });
+        logger.info('nope');
+        logger.warn('yup');
+
+        expect(console.log) // tslint:disable-line no-console
+          .toHaveBeenCalledTimes(1);
+        expect(console.log) // tslint:disable-line no-console
+          .toHaveBeenCalledWith('warn', 'yup', '');
+      });
+
+      it('is independent of the level', async () => {
+        const logger = Logger.create({
+          ...config,
+          logToConsole: true,
+          level: 'error',
+        });
+        logger.info('yup');
+        await logger.flush();
+
+        expect(console.log) // tslint:disable-line no-console
+          .toHaveBeenCalledWith('info', 'yup', '');
+        expect(logs).toHaveLength(0);
+      });
+    });
+
     describe('disabled', () => {
       it('does not log to the console', async () => {
         const logger = Logger.create({ ...config, logToConsole: false });
@@ -487,6 +3119,64 @@ describe('Logger', () => {
     });
   });
 
+  describe('serialization', () => {
+    it('does not throw on circular references', async () => {
+      const logger = Logger.create(config);
+      const request: any = { url: '/foo' };
+      request.self = request;
+
+      expect(() => logger.info('request', { request })).not.toThrow();
+      await logger.flush();
+      expectToHaveLogged([{ request: { url: '/foo', self: '[Circular]' } }]);
+    });
+
+    it('converts values JSON does not support', async () => {
+      const logger = Logger.create(config);
+      logger.info('foo', {
+        ids: new Set(['a', 'b']),
+        counts: new Map([['a', 1]]),
+      });
+      await logger.flush();
+
+      expectToHaveLogged([{ ids: ['a', 'b'], counts: { a: 1 } }]);
+    });
+
+    it('caps deep objects, long arrays and long strings', async () => {
+      const logger = Logger.create({
+        ...config,
+        maxDepth: 2,
+        maxArrayLength: 2,
+        maxStringLength: 3,
+      });
+      logger.info('foo', {
+        deep: { deeper: { deepest: true } },
+        list: [1, 2, 3],
+        text: 'abcdef',
+      });
+      await logger.flush();
+
+      expectToHaveLogged([
+        {
+          deep: { deeper: '[Object]' },
+          list: [1, 2, '...[1 more items]'],
+          text: 'abc...[truncated]',
+        },
+      ]);
+    });
+
+    it('leaves Error.prototype alone', async () => {
+      const logger = Logger.create({
+        ...config,
+        errorFormatter: () => {
+          expect((Error.prototype as any).toJSON).toBeUndefined();
+          return {};
+        },
+      });
+      logger.error('foo', { error: new Error('Boom!') });
+      await logger.flush();
+    });
+  });
+
   describe('errorFormatter', () => {
     it('reformats error objects automatically', async () => {
       const logger = Logger.create(config);
@@ -545,5 +3235,32 @@ describe('Logger', () => {
 
       expectToHaveLogged([{ woah: 'BOOM!' }]);
     });
+
+    it('includes the cause of errors', async () => {
+      const logger = Logger.create({
+        ...config,
+        errorFormatter: err => ({ message: err.message }),
+      });
+      const cause = new Error('Connection refused');
+      logger.error('whoops', Object.assign(new Error('Boom!'), { cause }));
+      logger.flush();
+
+      expectToHaveLogged([
+        { message: 'Boom!', cause: { message: 'Connection refused' } },
+      ]);
+    });
+
+    it('falls back to the name and message when the formatter throws', async () => {
+      const logger = Logger.create({
+        ...config,
+        errorFormatter: () => {
+          throw new Error('Bad formatter');
+        },
+      });
+      logger.error('whoops', { error: new TypeError('Boom!') });
+      logger.flush();
+
+      expectToHaveLogged([{ error: { name: 'TypeError', message: 'Boom!' } }]);
+    });
   });
 });
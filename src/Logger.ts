@@ -1,4 +1,56 @@
-import { fetch } from './fetch';
+import { chunkLines, truncateEvent } from './batching';
+import { byteLength } from './byteLength';
+import { now } from './clock';
+import {
+  ConsoleCaptureOptions,
+  ConsoleMethod,
+  formatConsoleArgs,
+  installConsoleCapture,
+  writeToConsole,
+} from './consoleCapture';
+import { Emitter } from './Emitter';
+import { GlobalErrorOptions, installGlobalErrorHooks } from './globalErrors';
+import { HecEndpoint } from './hec';
+import { KersplunkError } from './KersplunkError';
+import { ExitFlushOptions, installExitHooks, setKeepAlive } from './lifecycle';
+import {
+  Counter,
+  Gauge,
+  METRIC_EVENT,
+  MetricDimensions,
+  metricFields,
+  MetricsAggregator,
+  MetricsConfiguration,
+  MetricValues,
+} from './metrics';
+import {
+  DROP,
+  interceptorStage,
+  LogEntry,
+  LogEvent,
+  LogMiddleware,
+  runMiddleware,
+} from './middleware';
+import { createRedactor, RedactionOptions, Redactor } from './redaction';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, RetryQueue } from './RetryQueue';
+import {
+  destinationKey,
+  hasDestination,
+  LogRoute,
+  matchesCriteria,
+} from './routing';
+import { Sampler, SamplingOptions, SUPPRESSED_EVENT_NAME } from './sampling';
+import { formatError, toSerializable } from './serialize';
+import { StorageAdapter } from './storage';
+import { createTraceContext, formatTraceparent, TraceContext } from './trace';
+import {
+  AuthToken,
+  Batch,
+  HecRuntimeConfiguration,
+  HecTransport,
+  Transport,
+} from './transports';
+import { flattenTransports } from './transports/FanoutTransport';
 import { version } from './version.json';
 
 declare const global: {
@@ -18,30 +70,138 @@ export type SplunkMetaFactory = () => SplunkMeta;
 export type LogInterceptor = (
   originalDetails: undefined | object
 ) => undefined | object;
+export type ErrorHandler = (error: KersplunkError) => void;
+export type DropReason = 'fatal-error' | 'retries-exhausted' | 'queue-overflow';
+export type DroppedBatch = {
+  reason: DropReason;
+  events: number;
+  bytes: number;
+  attempts: number;
+  error?: KersplunkError;
+};
+export type DropHandler = (drop: DroppedBatch) => void;
+export type BatchEvent = {
+  events: number;
+  bytes: number;
+  attempts: number;
+};
+export type RetryEvent = BatchEvent & { error: KersplunkError };
+export type FlushEvent = {
+  batches: number;
+  events: number;
+  bytes: number;
+};
+export type LoggerEvents = {
+  flush: FlushEvent; // the buffer was split into batches and sent
+  sent: BatchEvent; // a batch was delivered
+  retry: RetryEvent; // a batch failed and will be retried
+  drop: DroppedBatch; // a batch was given up on
+  error: KersplunkError;
+};
+// Batches sent to several transports are counted once per transport
+export type LoggerStats = {
+  buffered: number; // events added to the buffer
+  flushes: number;
+  sent: number; // events delivered
+  sentBatches: number;
+  retried: number; // batches scheduled for retry
+  dropped: number; // events given up on
+  droppedBatches: number;
+  errors: number;
+  sampled: number; // events dropped by sampling rules
+  rateLimited: number; // events dropped by rate limits
+  bufferSize: number; // events currently in the buffer
+  bufferBytes: number;
+  pendingBatches: number; // batches not yet delivered or dropped
+  retryQueueBatches: number; // batches waiting to be retried
+};
+type StatsCounters = Pick<
+  LoggerStats,
+  | 'buffered'
+  | 'flushes'
+  | 'sent'
+  | 'sentBatches'
+  | 'retried'
+  | 'dropped'
+  | 'droppedBatches'
+  | 'errors'
+  | 'sampled'
+  | 'rateLimited'
+>;
+export type TimerLogTypes = {
+  success?: string; // defaults to `info`, or the first log type
+  failure?: string; // defaults to `error`, or the last log type
+};
+export type Timer = {
+  // Logs the duration and outcome. Only the first call to `end` or `fail`
+  // is logged. Both return the duration in milliseconds.
+  end(details?: object): number;
+  fail(error: unknown, details?: object): number;
+};
+export type SpanOptions = {
+  traceparent?: string; // continues an incoming trace
+  details?: object;
+};
+export type Span = Timer & {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceparent: string; // to send with outgoing requests
+};
 export type CustomLogger<TLogTypes extends string[]> = Logger &
   Record<
     TLogTypes[number] extends never
       ? typeof DEFAULT_LOG_TYPES[number]
       : TLogTypes[number],
-    (eventName: string, details?: object) => void
+    (eventName: string, details?: object, meta?: SplunkMeta) => void
   >;
 
 type CoreLoggerConfiguration = {
-  splunkUrl: string;
-  authToken: string;
+  splunkUrl?: string;
+  authToken?: AuthToken;
+  transport?: Transport;
+  endpoint?: HecEndpoint;
+  channel?: string;
+  useAck?: boolean;
+  ackPollInterval?: number;
+  ackTimeout?: number;
+  compression?: boolean;
+  compressionThreshold?: number;
   maxBuffer: number;
+  maxBatchBytes: number;
+  maxEventBytes: number;
+  maxDepth: number;
+  maxArrayLength: number;
+  maxStringLength: number;
   throttleDuration: number;
   splunkMeta?: SplunkMeta | SplunkMetaFactory;
   interceptor?: LogInterceptor;
+  routes?: LogRoute[];
+  sampling?: SamplingOptions;
+  redact?: RedactionOptions;
   autoRetry: boolean;
   autoRetryDuration: number;
+  retryPolicy?: Partial<RetryPolicy>;
   enabled: boolean;
   logToConsole: boolean;
+  level?: string;
+  consoleLevel?: string;
+  levels?: Record<string, number>;
   errorFormatter: (err: Error) => object;
+  timerLogTypes?: TimerLogTypes;
+  metrics?: MetricsConfiguration;
+  onError?: ErrorHandler;
+  onDrop?: DropHandler;
+  storage?: StorageAdapter;
 };
 
 const DEFAULT_CONFIG = {
   maxBuffer: 50,
+  maxBatchBytes: 1024 * 1024,
+  maxEventBytes: 256 * 1024,
+  maxDepth: 10,
+  maxArrayLength: 1000,
+  maxStringLength: 64 * 1024,
   throttleDuration: 250,
   autoRetry: true,
   autoRetryDuration: 1000,
@@ -54,6 +214,9 @@ const DEFAULT_CONFIG = {
   }),
 };
 
+// navigator.sendBeacon and fetch keepalive requests are limited to 64KB
+const BEACON_MAX_BYTES = 64 * 1000;
+
 const DEFAULT_LOG_TYPES = [
   'debug' as 'debug',
   'info' as 'info',
@@ -61,6 +224,102 @@ const DEFAULT_LOG_TYPES = [
   'error' as 'error',
 ];
 
+type LogScope = {
+  context?: object;
+  meta?: SplunkMeta;
+};
+
+const mergeScopes = (parent: LogScope, child: LogScope): LogScope => ({
+  context: { ...parent.context, ...child.context },
+  meta: {
+    ...parent.meta,
+    ...child.meta,
+    fields: {
+      ...(parent.meta && parent.meta.fields),
+      ...(child.meta && child.meta.fields),
+    },
+  },
+});
+
+export type FlushOptions = {
+  waitForAck?: boolean;
+};
+
+export type CloseOptions = {
+  timeoutMs?: number; // how long to wait for pending batches, defaults to 5000
+};
+
+export type BatchCount = {
+  batches: number;
+  events: number;
+};
+
+// Batches that were dropped or still pending at the deadline are abandoned.
+// Abandoned batches remain in `storage` (when configured) so they can be
+// re-sent by the next logger.
+export type CloseSummary = {
+  delivered: BatchCount;
+  abandoned: BatchCount;
+};
+
+// Retry state is tracked separately for each transport
+type TransportState = {
+  transport: Transport;
+  retryQueue: RetryQueue;
+  pending: Batch[];
+  waiting: Array<{ batch: Batch; resolve: (delivered: boolean) => void }>;
+};
+
+// Each destination (the logger's own and those of its routes) has its own
+// buffer and retry state so their batches are never mixed
+type Destination = {
+  buffer: string[];
+  bufferBytes: number;
+  bufferTimeout?: NodeJS.Timeout;
+  transports: TransportState[];
+  // A HEC transport the logger created, and the settings its route overrides
+  hec?: { transport: HecTransport; overrides: HecRuntimeConfiguration };
+};
+
+type Route = {
+  route: LogRoute;
+  destination: Destination;
+};
+
+type PersistedDestination = {
+  buffer: string[];
+  pending: Batch[][]; // indexed by transport
+};
+
+// The logger's own destination, followed by those of its routes
+type PersistedState = PersistedDestination & {
+  routes?: PersistedDestination[];
+};
+
+const isPersistedDestination = (value: any): boolean =>
+  !!value &&
+  Array.isArray(value.buffer) &&
+  value.buffer.every((line: unknown) => typeof line === 'string') &&
+  Array.isArray(value.pending) &&
+  value.pending.every(
+    (batches: unknown) =>
+      Array.isArray(batches) &&
+      batches.every(batch => !!batch && typeof batch.body === 'string')
+  );
+
+// State written by another version (or another app sharing the storage
+// key) is discarded
+const isPersistedState = (value: any): value is PersistedState =>
+  isPersistedDestination(value) &&
+  (value.routes === undefined ||
+    (Array.isArray(value.routes) &&
+      value.routes.every(isPersistedDestination)));
+
+// Logs are sent to Splunk HEC unless a custom transport is supplied
+type TransportConfiguration =
+  | { splunkUrl: string; authToken: AuthToken }
+  | { transport: Transport };
+
 // Only require the user to supply values that are not
 // part of the DEFAULT_CONFIG
 export type LoggerConfiguration = Partial<
@@ -69,7 +328,119 @@ export type LoggerConfiguration = Partial<
   Pick<
     CoreLoggerConfiguration,
     Exclude<keyof CoreLoggerConfiguration, keyof typeof DEFAULT_CONFIG>
-  >;
+  > &
+  TransportConfiguration;
+
+// The settings `configure` can change once the logger has been created
+export type RuntimeConfiguration = Partial<
+  Pick<
+    CoreLoggerConfiguration,
+    | 'splunkUrl'
+    | 'authToken'
+    | 'endpoint'
+    | 'compression'
+    | 'compressionThreshold'
+    | 'maxBuffer'
+    | 'maxBatchBytes'
+    | 'maxEventBytes'
+    | 'maxDepth'
+    | 'maxArrayLength'
+    | 'maxStringLength'
+    | 'throttleDuration'
+    | 'splunkMeta'
+    | 'autoRetry'
+    | 'enabled'
+    | 'logToConsole'
+    | 'level'
+    | 'consoleLevel'
+    | 'errorFormatter'
+    | 'onError'
+    | 'onDrop'
+  >
+>;
+
+type OptionCheck = {
+  valid: (value: unknown) => boolean;
+  expected: string;
+};
+
+const countCheck: OptionCheck = {
+  valid: value => typeof value === 'number' && value >= 1,
+  expected: 'a positive number',
+};
+const durationCheck: OptionCheck = {
+  valid: value => typeof value === 'number' && value >= 0,
+  expected: 'a number of milliseconds',
+};
+const bytesCheck: OptionCheck = {
+  valid: value => typeof value === 'number' && value >= 0,
+  expected: 'a number of bytes',
+};
+const flagCheck: OptionCheck = {
+  valid: value => typeof value === 'boolean',
+  expected: 'a boolean',
+};
+const optional = ({ valid, expected }: OptionCheck): OptionCheck => ({
+  valid: value => value === undefined || valid(value),
+  expected: `${expected} or undefined`,
+});
+const callbackCheck: OptionCheck = {
+  valid: value => typeof value === 'function',
+  expected: 'a function',
+};
+const nonEmptyStringCheck: OptionCheck = {
+  valid: value => typeof value === 'string' && value !== '',
+  expected: 'a non-empty string',
+};
+
+const RUNTIME_OPTIONS: Record<keyof RuntimeConfiguration, OptionCheck> = {
+  splunkUrl: nonEmptyStringCheck,
+  authToken: {
+    valid: value =>
+      nonEmptyStringCheck.valid(value) || callbackCheck.valid(value),
+    expected: 'a token or a function that resolves one',
+  },
+  endpoint: {
+    valid: value => value === 'event' || value === 'raw',
+    expected: '"event" or "raw"',
+  },
+  compression: flagCheck,
+  compressionThreshold: bytesCheck,
+  maxBuffer: countCheck,
+  maxBatchBytes: countCheck,
+  maxEventBytes: countCheck,
+  maxDepth: countCheck,
+  maxArrayLength: countCheck,
+  maxStringLength: countCheck,
+  throttleDuration: durationCheck,
+  splunkMeta: optional({
+    valid: value => !!value && /object|function/.test(typeof value),
+    expected: 'an object or a function',
+  }),
+  autoRetry: flagCheck,
+  enabled: flagCheck,
+  logToConsole: flagCheck,
+  level: optional({
+    valid: value => typeof value === 'string',
+    expected: 'a string',
+  }),
+  consoleLevel: optional({
+    valid: value => typeof value === 'string',
+    expected: 'a string',
+  }),
+  errorFormatter: callbackCheck,
+  onError: optional(callbackCheck),
+  onDrop: optional(callbackCheck),
+};
+
+// Applied to the HEC transports the logger created
+const HEC_RUNTIME_OPTIONS: Array<keyof HecRuntimeConfiguration> = [
+  'splunkUrl',
+  'authToken',
+  'endpoint',
+  'compression',
+  'compressionThreshold',
+];
 
 export class Logger {
   public static singleton<TLogTypes extends string[]>(
@@ -86,18 +457,49 @@ export class Logger {
     config: LoggerConfiguration,
     ...logTypes: TLogTypes
   ): CustomLogger<TLogTypes> {
-    const logger = new Logger(config);
-    const finalLogTypes: string[] = logTypes.length
-      ? logTypes
-      : DEFAULT_LOG_TYPES;
+    return Logger._addLogTypes(
+      new Logger(config),
+      logTypes.length ? logTypes : DEFAULT_LOG_TYPES
+    );
+  }
 
+  // Forgets the singleton so the next call to `singleton` creates a new
+  // logger. Pass `close` to also close the old logger.
+  public static async clearSingleton(
+    options: { close?: boolean } & CloseOptions = {}
+  ): Promise<CloseSummary | undefined> {
+    const logger = global.__kersplunkSingleton;
+    global.__kersplunkSingleton = undefined;
+    if (logger && options.close) {
+      return logger.close(options);
+    }
+  }
+
+  private static _addLogTypes(logger: Logger, logTypes: string[]) {
+    logger._logTypes = logTypes;
+    logger._validateLevel(logger._config.level);
+    logger._validateLevel(logger._config.consoleLevel);
+    const { timerLogTypes = {} } = logger._config;
+    logger._validateLogType(timerLogTypes.success);
+    logger._validateLogType(timerLogTypes.failure);
+    const { routes = [], sampling = {} } = logger._config;
+    [
+      ...routes,
+      ...(sampling.rules || []),
+      ...(sampling.rateLimits || []),
+    ].forEach(({ logType }) =>
+      ([] as string[])
+        .concat(logType || [])
+        .forEach(criteriaLogType => logger._validateLogType(criteriaLogType))
+    );
+    logger._validateLogType(sampling.summaryLogType);
     Object.assign(
       logger,
-      finalLogTypes.reduce(
+      logTypes.reduce(
         (acc, logType) => ({
           ...acc,
-          [logType]: (eventName: string, details?: object) =>
-            logger._log(logType, eventName, details),
+          [logType]: (eventName: string, details?: object, meta?: SplunkMeta) =>
+            logger._log(logType, eventName, details, { meta }),
         }),
         {}
       )
@@ -106,18 +508,87 @@ export class Logger {
     return logger as any;
   }
 
-  public static clearSingleton() {
-    global.__kersplunkSingleton = undefined;
-  }
-
   public interceptor?: LogInterceptor;
   private _config: CoreLoggerConfiguration;
-  private _buffer: string[] = [];
-  private _bufferTimeout?: NodeJS.Timeout;
+  private _logTypes: string[] = [];
+  private _parent?: Logger;
+  private _scope: LogScope = {};
+  private _trace?: TraceContext;
+  // The first destination is the logger's own
+  private _destinations: Destination[];
+  private _routes: Route[] = [];
+  private _persisting: Promise<void>;
+  private _persistQueued = false;
+  private _closing?: Promise<CloseSummary>;
+  private _closed = false;
+  private _keepAlive = true; // whether the logger's timers keep node alive
+  private _redactor?: Redactor;
+  private _middleware: LogMiddleware[] = [];
+  // Events still passing through async middleware are chained so they
+  // reach the buffer in the order they were logged
+  private _pipeline: Promise<void> = Promise.resolve();
+  private _pipelineEntries = 0;
+  private _metrics: MetricsAggregator;
+  private _sampler?: Sampler;
+  private _events: Emitter<LoggerEvents>;
+  private _counters: StatsCounters = {
+    buffered: 0,
+    flushes: 0,
+    sent: 0,
+    sentBatches: 0,
+    retried: 0,
+    dropped: 0,
+    droppedBatches: 0,
+    errors: 0,
+    sampled: 0,
+    rateLimited: 0,
+  };
 
-  private constructor(config: LoggerConfiguration) {
+  private constructor(config: LoggerConfiguration | Logger) {
+    if (config instanceof Logger) {
+      const parent = config;
+      // Children share their parent's configuration, buffer and transport.
+      // Their logs are handed up to the root logger with the child's scope.
+      this._config = parent._config;
+      this._parent = parent;
+      this._destinations = parent._destinations;
+      this._metrics = parent._metrics;
+      this._events = parent._events;
+      this._persisting = Promise.resolve();
+      return;
+    }
     this._config = { ...DEFAULT_CONFIG, ...config };
     this.interceptor = config.interceptor;
+    this._redactor =
+      config.redact &&
+      createRedactor(config.redact, e =>
+        this._reportFailure('Redaction rule', e)
+      );
+    this._events = new Emitter();
+    if (config.sampling) {
+      const { summaryLogType } = config.sampling;
+      this._sampler = new Sampler(
+        config.sampling,
+        summary =>
+          this._log(
+            summaryLogType || this._defaultLogType('info'),
+            SUPPRESSED_EVENT_NAME,
+            summary
+          ),
+        e => this._reportFailure('Sampling rule', e)
+      );
+    }
+    this._metrics = new MetricsAggregator(
+      (values, dimensions) => this._addMetrics(values, dimensions),
+      (config.metrics && config.metrics.interval) || 10000
+    );
+    this._destinations = [
+      this._config.transport
+        ? this._createDestination(this._config.transport)
+        : this._createHecDestination(),
+    ];
+    this._routes = this._createRoutes(config.routes || []);
+    this._persisting = this._restore();
   }
 
   public enable() {
@@ -127,101 +598,1020 @@ export class Logger {
   public disable() {
     this._config.enabled = false;
   }
-  public async flush() {
-    this._clearBufferTimeout();
-    if (this._buffer.length === 0) {
-      return;
+
+  // Changes settings while the logger is running. Settings that shape
+  // events (eg: `splunkMeta`) apply to those logged afterwards, while the
+  // HEC settings apply from the next request, including for buffered events.
+  public configure(changes: RuntimeConfiguration): void {
+    if (this._parent) {
+      return this._parent.configure(changes);
+    }
+    Object.keys(changes).forEach(option => {
+      if (!Object.prototype.hasOwnProperty.call(RUNTIME_OPTIONS, option)) {
+        throw new Error(
+          `"${option}" can not be changed once the logger has been created`
+        );
+      }
+      const { valid, expected } = RUNTIME_OPTIONS[
+        option as keyof RuntimeConfiguration
+      ];
+      if (!valid((changes as Record<string, unknown>)[option])) {
+        throw new Error(`Invalid "${option}", expected ${expected}`);
+      }
+    });
+    this._validateLevel(changes.level);
+    this._validateLevel(changes.consoleLevel);
+    const hecChanges = HEC_RUNTIME_OPTIONS.filter(
+      option => option in changes
+    ).reduce<HecRuntimeConfiguration>(
+      (acc, option) => ({ ...acc, [option]: changes[option] }),
+      {}
+    );
+    const hecDestinations = this._destinations.filter(({ hec }) => hec);
+    if (Object.keys(hecChanges).length && !hecDestinations.length) {
+      throw new Error(
+        `${Object.keys(hecChanges).join(
+          ', '
+        )} can only be configured when the logger sends to Splunk HEC`
+      );
+    }
+    // Children share this configuration
+    Object.assign(this._config, changes);
+    hecDestinations.forEach(({ hec }) => {
+      if (hec) {
+        // Settings a route overrides stay as they are
+        hec.transport.configure({ ...hecChanges, ...hec.overrides });
+      }
+    });
+  }
+
+  public setLevel(level: string | undefined) {
+    this._validateLevel(level);
+    this._config.level = level;
+  }
+
+  // Subscribes to delivery events. Returns a function to unsubscribe.
+  public on<K extends keyof LoggerEvents>(
+    event: K,
+    listener: (payload: LoggerEvents[K]) => void
+  ): () => void {
+    return this._events.on(event, listener);
+  }
+
+  public off<K extends keyof LoggerEvents>(
+    event: K,
+    listener: (payload: LoggerEvents[K]) => void
+  ) {
+    this._events.off(event, listener);
+  }
+
+  public stats(): LoggerStats {
+    if (this._parent) {
+      return this._parent.stats();
+    }
+    const sum = <T>(items: T[], count: (item: T) => number) =>
+      items.reduce((total, item) => total + count(item), 0);
+    const transports = this._allTransports();
+    return {
+      ...this._counters,
+      bufferSize: sum(this._destinations, ({ buffer }) => buffer.length),
+      bufferBytes: sum(this._destinations, ({ bufferBytes }) => bufferBytes),
+      pendingBatches: sum(transports, ({ pending }) => pending.length),
+      retryQueueBatches: sum(
+        transports,
+        ({ retryQueue }) => retryQueue.batches
+      ),
+    };
+  }
+
+  // Adds a stage to the end of the middleware pipeline. Middleware added
+  // to a child applies to every log of its root logger.
+  public use(middleware: LogMiddleware): this {
+    if (this._parent) {
+      this._parent.use(middleware);
+    } else {
+      this._middleware = [...this._middleware, middleware];
+    }
+    return this;
+  }
+
+  public child(context: object, metaOverrides?: SplunkMeta): this {
+    const child = new Logger(this);
+    child._scope = { context, meta: metaOverrides };
+    child._trace = this._trace;
+    return Logger._addLogTypes(child, this._logTypes);
+  }
+
+  // Sends a metric event immediately
+  public metric(name: string, value: number, dimensions?: MetricDimensions) {
+    this.metrics({ [name]: value }, dimensions);
+  }
+
+  // Sends several measurements that share the same dimensions as a single
+  // multi-metric event
+  public metrics(values: MetricValues, dimensions?: MetricDimensions): void {
+    if (this._parent) {
+      return this._parent.metrics(values, dimensions);
+    }
+    this._addMetrics(values, dimensions);
+  }
+
+  // Counters and gauges are aggregated locally and sent every
+  // `metrics.interval`
+  public counter(name: string, dimensions?: MetricDimensions): Counter {
+    return this._metrics.counter(name, dimensions);
+  }
+
+  public gauge(name: string, dimensions?: MetricDimensions): Gauge {
+    return this._metrics.gauge(name, dimensions);
+  }
+
+  // Starts a timer. The event is logged once the timer ends (or fails)
+  // with its `durationMs` and `outcome`.
+  public time(eventName: string, details?: object): Timer {
+    const start = now();
+    let durationMs: number | undefined;
+    const finish = (outcome: 'success' | 'failure', extra?: object) => {
+      if (durationMs === undefined) {
+        durationMs = Math.round(now() - start);
+        this._log(this._timerLogType(outcome), eventName, {
+          ...details,
+          ...extra,
+          durationMs,
+          outcome,
+        });
+      }
+      return durationMs;
+    };
+    return {
+      end: extra => finish('success', extra),
+      fail: (error, extra) => finish('failure', { ...extra, error }),
+    };
+  }
+
+  // Starts a span: a child logger whose events include the trace and span
+  // IDs, and a timer for the span itself. Spans started from a span (or
+  // from its children) continue the same trace.
+  public span(name: string, options: SpanOptions = {}): this & Span {
+    const trace = createTraceContext(options.traceparent || this._trace);
+    const { traceId, spanId, parentSpanId } = trace;
+    const span = this.child(
+      parentSpanId ? { traceId, spanId, parentSpanId } : { traceId, spanId }
+    );
+    span._trace = trace;
+    const timer = span.time(name, options.details);
+    return Object.assign(span, {
+      traceId,
+      spanId,
+      parentSpanId,
+      traceparent: formatTraceparent(trace),
+      end: timer.end,
+      fail: timer.fail,
+    });
+  }
+
+  // Sends the buffered logs. With `waitForAck`, the promise does not
+  // resolve until every pending batch has been delivered (and acknowledged
+  // when `useAck` is enabled) or dropped.
+  public async flush(options: FlushOptions = {}): Promise<void> {
+    if (this._parent) {
+      return this._parent.flush(options);
+    }
+    if (this._pipelineEntries) {
+      await this._pipeline;
+    }
+    await Promise.all(
+      this._destinations.map(destination => this._flushDestination(destination))
+    );
+    if (options.waitForAck) {
+      await Promise.all(
+        this._allTransports().map(state =>
+          Promise.all(
+            state.pending.map(batch => this._whenSettled(state, batch))
+          )
+        )
+      );
+    }
+  }
+
+  // Stops accepting logs, sends the buffer and waits up to `timeoutMs`
+  // for every pending batch (including retries) to be delivered. Timers
+  // are cleared once it resolves so the logger no longer keeps node alive.
+  public close({ timeoutMs = 5000 }: CloseOptions = {}): Promise<CloseSummary> {
+    if (this._parent) {
+      return this._parent.close({ timeoutMs });
+    }
+    if (!this._closing) {
+      this._closing = this._close(timeoutMs);
+    }
+    return this._closing;
+  }
+
+  // Flushes the logs when the page is hidden/unloaded (browsers) or when
+  // the process exits (node). Returns a function to remove the hooks.
+  public flushOnExit(options: ExitFlushOptions = {}): () => void {
+    if (this._parent) {
+      return this._parent.flushOnExit(options);
+    }
+    return installExitHooks(
+      {
+        unload: () => {
+          this._flushAggregates();
+          this._flushForUnload();
+        },
+        flush: () => {
+          this._flushAggregates();
+          return this.flush({ waitForAck: true });
+        },
+        keepAlive: keepAlive => this._setKeepAlive(keepAlive),
+      },
+      options
+    );
+  }
+
+  // Logs uncaught errors and unhandled promise rejections. Returns a
+  // function to remove the hooks.
+  public captureGlobalErrors(options: GlobalErrorOptions = {}): () => void {
+    this._validateLogType(options.logType);
+    const logType = options.logType || this._defaultLogType('error');
+    return installGlobalErrorHooks(
+      {
+        report: (kind, error, suppressed) =>
+          this._log(logType, kind, {
+            ...(error instanceof Error
+              ? formatError(error, this._config.errorFormatter)
+              : { reason: error }),
+            ...(suppressed ? { suppressed } : {}),
+          }),
+        flush: () => this.flush(),
+      },
+      options
+    );
+  }
+
+  // Forwards messages written to the console as events while still
+  // printing them. Returns a function to restore the console.
+  public captureConsole({
+    methods = ['warn', 'error'],
+    logTypeMap = {},
+  }: ConsoleCaptureOptions = {}): () => void {
+    const logTypeFor = (method: ConsoleMethod) =>
+      logTypeMap[method] ||
+      (this._logTypes.indexOf(method) >= 0
+        ? method
+        : this._defaultLogType(method === 'error' ? 'error' : 'info'));
+    methods.forEach(method => this._validateLogType(logTypeFor(method)));
+    return installConsoleCapture(methods, (method, args) => {
+      const { message, error } = formatConsoleArgs(args);
+      this._log(logTypeFor(method), `console.${method}`, {
+        message,
+        ...(error
+          ? { error: formatError(error, this._config.errorFormatter) }
+          : {}),
+      });
+    });
+  }
+
+  private async _close(timeoutMs: number): Promise<CloseSummary> {
+    const summary: CloseSummary = {
+      delivered: { batches: 0, events: 0 },
+      abandoned: { batches: 0, events: 0 },
+    };
+    let deadline: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<void>(resolve => {
+      deadline = setTimeout(() => resolve(), timeoutMs);
+    });
+    this._metrics.close();
+    if (this._sampler) {
+      this._sampler.close();
+    }
+    const drain = Promise.all([this._persisting, this._pipeline]).then(() => {
+      this.flush();
+      return Promise.all(
+        this._allTransports().map(state =>
+          Promise.all(
+            state.pending.map(batch =>
+              this._whenSettled(state, batch).then(delivered => {
+                if (this._closed) {
+                  return;
+                }
+                const count = delivered ? summary.delivered : summary.abandoned;
+                count.batches++;
+                count.events += batch.events;
+              })
+            )
+          )
+        )
+      );
+    });
+    await Promise.race([drain, timedOut]);
+    if (deadline) {
+      clearTimeout(deadline);
+    }
+
+    this._closed = true;
+    this._destinations.forEach(destination =>
+      this._clearBufferTimeout(destination)
+    );
+    this._allTransports().forEach(({ transport, retryQueue, pending }) => {
+      retryQueue.clear();
+      if (transport.close) {
+        transport.close();
+      }
+      pending.forEach(batch => {
+        summary.abandoned.batches++;
+        summary.abandoned.events += batch.events;
+      });
+    });
+    this._persist();
+    await this._persisting;
+    return summary;
+  }
+
+  // Logs the metrics and sampling summary aggregated so far
+  private _flushAggregates() {
+    this._metrics.flush();
+    if (this._sampler) {
+      this._sampler.flush();
+    }
+  }
+
+  // Sends the destination's buffer to each of its transports
+  private _flushDestination(destination: Destination) {
+    const chunks = this._takeBuffer(destination, this._config.maxBatchBytes);
+    return Promise.all(
+      chunks.map(lines => {
+        const body = lines.join('\n');
+        const bytes = byteLength(body);
+        return Promise.all(
+          destination.transports.map(state => {
+            const batch = { body, events: lines.length, bytes, attempts: 0 };
+            state.pending = [...state.pending, batch];
+            this._persist();
+            return this._flushBodyWithRetry(state, batch);
+          })
+        );
+      })
+    );
+  }
+
+  private _flushForUnload() {
+    this._destinations.forEach(destination => {
+      const chunks = this._takeBuffer(
+        destination,
+        Math.min(this._config.maxBatchBytes, BEACON_MAX_BYTES)
+      );
+      chunks.forEach(lines => {
+        const body = lines.join('\n');
+        const bytes = byteLength(body);
+        destination.transports.forEach(state => {
+          const batch = { body, events: lines.length, bytes, attempts: 0 };
+          const { transport } = state;
+          if (!transport.sendBeacon || !transport.sendBeacon(batch)) {
+            state.pending = [...state.pending, batch];
+            this._flushBodyWithRetry(state, batch);
+          }
+        });
+      });
+    });
+    this._persist();
+  }
+
+  // Empties the destination's buffer, returning its lines split into batches
+  private _takeBuffer(destination: Destination, maxBatchBytes: number) {
+    this._clearBufferTimeout(destination);
+    const chunks = chunkLines(destination.buffer, maxBatchBytes);
+    if (chunks.length) {
+      this._counters.flushes++;
+      this._events.emit('flush', {
+        batches: chunks.length,
+        events: destination.buffer.length,
+        bytes: destination.bufferBytes,
+      });
+    }
+    destination.buffer = [];
+    destination.bufferBytes = 0;
+    return chunks;
+  }
+
+  private _allTransports() {
+    return this._destinations.reduce<TransportState[]>(
+      (all, { transports }) => [...all, ...transports],
+      []
+    );
+  }
+
+  private _createDestination(transport: Transport): Destination {
+    const destination: Destination = {
+      buffer: [],
+      bufferBytes: 0,
+      transports: [],
+    };
+    destination.transports = flattenTransports(transport).map(flattened => {
+      const state: TransportState = {
+        transport: flattened,
+        pending: [],
+        waiting: [],
+        retryQueue: new RetryQueue(
+          {
+            ...DEFAULT_RETRY_POLICY,
+            initialDelay: this._config.autoRetryDuration,
+            ...this._config.retryPolicy,
+          },
+          batch => this._flushBodyWithRetry(state, batch),
+          batch => this._drop(state, batch, 'queue-overflow')
+        ),
+      };
+      return state;
+    });
+    return destination;
+  }
+
+  // Routes without a destination of their own use the logger's
+  private _createRoutes(routes: LogRoute[]) {
+    const keyed: Array<{
+      key: ReturnType<typeof destinationKey>;
+      destination: Destination;
+    }> = [];
+    return routes.map(route => {
+      if (!hasDestination(route)) {
+        return { route, destination: this._destinations[0] };
+      }
+      const key = destinationKey(route, this._config);
+      const existing = keyed.filter(candidate => candidate.key === key)[0];
+      if (existing) {
+        return { route, destination: existing.destination };
+      }
+      const destination = route.transport
+        ? this._createDestination(route.transport)
+        : this._createHecDestination({
+            ...(route.splunkUrl ? { splunkUrl: route.splunkUrl } : {}),
+            ...(route.authToken ? { authToken: route.authToken } : {}),
+          });
+      keyed.push({ key, destination });
+      this._destinations = [...this._destinations, destination];
+      return { route, destination };
+    });
+  }
+
+  // Finds the first route that matches the event. A route whose `test`
+  // throws is reported and skipped.
+  private _findRoute(event: LogEvent) {
+    for (const route of this._routes) {
+      try {
+        if (matchesCriteria(route.route, event)) {
+          return route;
+        }
+      } catch (e) {
+        this._reportFailure('Log route', e);
+      }
     }
-    const body = this._buffer.join('\n');
-    this._buffer = [];
-    await this._flushBodyWithRetry(body);
   }
 
-  private _buildSplunkMeta() {
+  private _createHecDestination(overrides: HecRuntimeConfiguration = {}) {
+    const transport = this._createHecTransport(
+      overrides.splunkUrl,
+      overrides.authToken
+    );
+    const destination = this._createDestination(transport);
+    destination.hec = { transport, overrides };
+    return destination;
+  }
+
+  private _createHecTransport(
+    splunkUrl = this._config.splunkUrl,
+    authToken = this._config.authToken
+  ) {
+    const {
+      endpoint,
+      channel,
+      useAck,
+      ackPollInterval,
+      ackTimeout,
+      compression,
+      compressionThreshold,
+    } = this._config;
+    if (!splunkUrl || !authToken) {
+      throw new Error(
+        'Either a transport or a splunkUrl and authToken must be configured'
+      );
+    }
+    return new HecTransport({
+      splunkUrl,
+      authToken,
+      endpoint,
+      channel,
+      useAck,
+      ackPollInterval,
+      ackTimeout,
+      compression,
+      compressionThreshold,
+    });
+  }
+
+  // Later overrides take precedence
+  private _buildSplunkMeta(...overrides: Array<SplunkMeta | undefined>) {
     const meta =
       typeof this._config.splunkMeta === 'function'
         ? this._config.splunkMeta()
         : this._config.splunkMeta;
 
-    return {
-      time: Date.now() / 1000,
-      sourcetype: '_json',
-      source: `kersplunk-${version}`,
-      ...meta,
-      fields: { ...(meta && meta.fields), kersplunk: version },
-    };
+    const merged = [meta, ...overrides].reduce<SplunkMeta>(
+      (acc, override) => ({
+        ...acc,
+        ...override,
+        fields: { ...acc.fields, ...(override && override.fields) },
+      }),
+      {
+        time: Date.now() / 1000,
+        sourcetype: '_json',
+        source: `kersplunk-${version}`,
+      }
+    );
+    return { ...merged, fields: { ...merged.fields, kersplunk: version } };
   }
 
-  private _stringify(obj: object) {
-    const originalToJSON = (Error as any).prototype.toJSON;
-    const { errorFormatter } = this._config;
-    (Error as any).prototype.toJSON = function () {
-      return errorFormatter(this);
-    };
-    const stringified = JSON.stringify(obj);
-    (Error as any).prototype.toJSON = originalToJSON;
-    return stringified;
+  // Makes the value safe to stringify and then applies the redaction rules
+  private _sanitize(value: unknown) {
+    const {
+      errorFormatter,
+      maxDepth,
+      maxArrayLength,
+      maxStringLength,
+    } = this._config;
+    const serializable = toSerializable(value, {
+      errorFormatter,
+      maxDepth,
+      maxArrayLength,
+      maxStringLength,
+    });
+    return this._redactor ? this._redactor(serializable) : serializable;
   }
 
-  private _log(logType: string, eventName: string, details?: object) {
-    if (this._config.logToConsole) {
-      console.log(logType, eventName, details || ''); // tslint:disable-line no-console
+  private _log(
+    logType: string,
+    eventName: string,
+    details?: object,
+    scope: LogScope = {}
+  ): void {
+    if (this._parent) {
+      return this._parent._log(
+        logType,
+        eventName,
+        details,
+        mergeScopes(this._scope, scope)
+      );
+    }
+    if (
+      this._config.logToConsole &&
+      this._meetsLevel(logType, this._config.consoleLevel)
+    ) {
+      writeToConsole('log', logType, eventName, details || '');
     }
-    if (!this._config.enabled) {
+    if (
+      this._closing ||
+      !this._config.enabled ||
+      !this._meetsLevel(logType, this._config.level)
+    ) {
       return;
     }
-    const event = {
+    const event: LogEvent = {
       logType,
       eventName,
+      ...scope.context,
       ...(details instanceof Error
-        ? this._config.errorFormatter(details)
+        ? formatError(details, this._config.errorFormatter)
         : details),
     };
-    const finalEvent = this.interceptor ? this.interceptor(event) : event;
-    this._buffer = [
-      ...this._buffer,
-      this._stringify({
-        ...this._buildSplunkMeta(),
-        event: finalEvent,
+    const suppressed = this._sampler && this._sampler.check(event);
+    if (suppressed) {
+      this._counters[suppressed === 'sampled' ? 'sampled' : 'rateLimited']++;
+      return;
+    }
+    // Routes are picked before the middleware runs, so middleware sees
+    // (and may still change) the route's meta
+    const route = this._findRoute(event);
+    const destination = route ? route.destination : this._destinations[0];
+    const stages = this.interceptor
+      ? [interceptorStage(this.interceptor), ...this._middleware]
+      : this._middleware;
+    const result = runMiddleware(
+      {
+        event,
+        meta: this._buildSplunkMeta(route && route.route.meta, scope.meta),
+      },
+      stages,
+      e => this._reportFailure('Log middleware', e)
+    );
+    if (result instanceof Promise || this._pipelineEntries) {
+      this._pipelineEntries++;
+      // Failures are reported so the pipeline keeps running for later events
+      this._pipeline = this._pipeline
+        .then(() => result)
+        .then(entry => this._enqueue(destination, entry))
+        .catch(e => this._reportFailure('Log event', e))
+        .then(() => {
+          this._pipelineEntries--;
+        });
+    } else {
+      this._enqueue(destination, result);
+    }
+  }
+
+  private _addMetrics(values: MetricValues, dimensions?: MetricDimensions) {
+    if (this._closing || !this._config.enabled) {
+      return;
+    }
+    const { index, sourcetype } = this._config.metrics || {};
+    const meta = this._buildSplunkMeta();
+    this._addToBuffer(
+      this._destinations[0],
+      JSON.stringify({
+        ...meta,
+        // Log indexes and sourcetypes do not apply to metrics
+        index,
+        sourcetype,
+        event: METRIC_EVENT,
+        fields: {
+          ...(this._sanitize(meta.fields) as object),
+          ...metricFields(values, dimensions),
+        },
       }),
-    ];
-    this._startOrResetBufferTimeout();
-    if (this._buffer.length >= this._config.maxBuffer) {
-      this.flush();
+      // Removing fields would lose measurements, or turn it into a log
+      false
+    );
+  }
+
+  private _enqueue(destination: Destination, entry: LogEntry | typeof DROP) {
+    if (entry === DROP) {
+      return;
     }
+    const { event, meta } = entry;
+    this._addToBuffer(
+      destination,
+      JSON.stringify({
+        ...meta,
+        fields: this._sanitize(meta.fields),
+        event: this._sanitize(event),
+      })
+    );
   }
 
-  private async _flushBodyWithRetry(body: string) {
+  private _addToBuffer(
+    destination: Destination,
+    serialized: string,
+    truncate = true
+  ) {
+    const maxEventBytes = Math.min(
+      this._config.maxEventBytes,
+      this._config.maxBatchBytes
+    );
+    let line: string | undefined = serialized;
+    let lineBytes = byteLength(line);
+    if (lineBytes > maxEventBytes) {
+      line = truncate ? truncateEvent(line, maxEventBytes) : undefined;
+      if (line === undefined) {
+        this._reportError(
+          new KersplunkError(
+            `Dropped an event that does not fit in ${maxEventBytes} bytes`,
+            { retryable: false }
+          )
+        );
+        return;
+      }
+      lineBytes = byteLength(line);
+    }
+    // Send what we have so far when this event would not fit in the batch
+    if (
+      destination.buffer.length &&
+      destination.bufferBytes + 1 + lineBytes > this._config.maxBatchBytes
+    ) {
+      this._flushDestination(destination);
+    }
+    destination.bufferBytes += (destination.buffer.length ? 1 : 0) + lineBytes;
+    destination.buffer = [...destination.buffer, line];
+    this._counters.buffered++;
+    this._persist();
+    this._startOrResetBufferTimeout(destination);
+    if (this._isBufferFull(destination)) {
+      this._flushDestination(destination);
+    }
+  }
+
+  private _isBufferFull({ buffer, bufferBytes }: Destination) {
+    return (
+      buffer.length >= this._config.maxBuffer ||
+      bufferBytes >= this._config.maxBatchBytes
+    );
+  }
+
+  // Log types are ranked by the `levels` config when supplied, otherwise
+  // by the order they were declared in (eg: debug < info < warn < error).
+  // Types missing from the `levels` config are never filtered out.
+  private _priority(logType: string) {
+    const { levels } = this._config;
+    if (levels) {
+      return logType in levels ? levels[logType] : Infinity;
+    }
+    return this._logTypes.indexOf(logType);
+  }
+
+  private _meetsLevel(logType: string, level?: string) {
+    return (
+      level === undefined || this._priority(logType) >= this._priority(level)
+    );
+  }
+
+  private _validateLogType(logType?: string) {
+    if (logType !== undefined && this._logTypes.indexOf(logType) < 0) {
+      throw new Error(
+        `Unknown log type "${logType}". Expected one of: ${this._logTypes.join(
+          ', '
+        )}`
+      );
+    }
+  }
+
+  // Falls back to the first (info) or last (error) custom log type
+  private _defaultLogType(logType: 'info' | 'error') {
+    const logTypes = this._logTypes;
+    if (logTypes.indexOf(logType) >= 0) {
+      return logType;
+    }
+    return logType === 'info' ? logTypes[0] : logTypes[logTypes.length - 1];
+  }
+
+  private _timerLogType(outcome: 'success' | 'failure') {
+    const { timerLogTypes = {} } = this._config;
+    return outcome === 'success'
+      ? timerLogTypes.success || this._defaultLogType('info')
+      : timerLogTypes.failure || this._defaultLogType('error');
+  }
+
+  private _validateLevel(level?: string) {
+    const { levels } = this._config;
+    const known = levels ? Object.keys(levels) : this._logTypes;
+    if (level !== undefined && known.indexOf(level) < 0) {
+      throw new Error(
+        `Unknown log level "${level}". Expected one of: ${known.join(', ')}`
+      );
+    }
+  }
+
+  private async _flushBodyWithRetry(state: TransportState, batch: Batch) {
+    batch.attempts++;
+    const { error, acknowledged } = await this._send(state.transport, batch);
+    if (error) {
+      this._handleFailure(state, batch, error);
+    } else if (acknowledged) {
+      // The batch stays pending until it has been acknowledged
+      acknowledged.then(acked =>
+        acked
+          ? this._settle(state, batch)
+          : this._handleFailure(
+              state,
+              batch,
+              new KersplunkError('Splunk did not acknowledge the batch', {
+                retryable: true,
+              })
+            )
+      );
+    } else {
+      this._settle(state, batch);
+    }
+  }
+
+  private _handleFailure(
+    state: TransportState,
+    batch: Batch,
+    error: KersplunkError
+  ) {
+    // The batch is abandoned once the logger is closed
+    if (this._closed) {
+      return;
+    }
+    this._reportError(error);
+    if (!error.retryable) {
+      this._drop(state, batch, 'fatal-error', error);
+    } else if (
+      !this._config.autoRetry ||
+      batch.attempts >= state.retryQueue.policy.maxAttempts
+    ) {
+      this._drop(state, batch, 'retries-exhausted', error);
+    } else {
+      this._counters.retried++;
+      this._events.emit('retry', {
+        events: batch.events,
+        bytes: batch.bytes,
+        attempts: batch.attempts,
+        error,
+      });
+      this._persist();
+      state.retryQueue.enqueue(batch);
+    }
+  }
+
+  private async _send(transport: Transport, batch: Batch) {
     try {
-      await fetch(this._config.splunkUrl, {
-        method: 'POST',
-        headers: { Authorization: `Splunk ${this._config.authToken}` },
-        body,
+      return await transport.send(batch);
+    } catch (e) {
+      // Custom transports should not throw, but if they do we treat
+      // it like any other retryable failure.
+      return {
+        error: new KersplunkError(`Transport failed: ${e && e.message}`, {
+          retryable: true,
+          cause: e,
+        }),
+      };
+    }
+  }
+
+  // Reports an error thrown while handling a log (eg: by middleware)
+  private _reportFailure(what: string, e: unknown) {
+    this._reportError(
+      new KersplunkError(
+        `${what} failed: ${e instanceof Error ? e.message : e}`,
+        { retryable: false, cause: e }
+      )
+    );
+  }
+
+  private _reportError(error: KersplunkError) {
+    this._counters.errors++;
+    this._events.emit('error', error);
+    if (!this._config.onError) {
+      return;
+    }
+    try {
+      this._config.onError(error);
+    } catch (e) {
+      // Never let a faulty error handler break logging
+    }
+  }
+
+  private _settle(state: TransportState, batch: Batch, delivered = true) {
+    state.pending = state.pending.filter(pending => pending !== batch);
+    if (delivered) {
+      this._counters.sent += batch.events;
+      this._counters.sentBatches++;
+      this._events.emit('sent', {
+        events: batch.events,
+        bytes: batch.bytes,
+        attempts: batch.attempts,
       });
+    }
+    state.waiting = state.waiting.filter(waiting => {
+      if (waiting.batch === batch) {
+        waiting.resolve(delivered);
+        return false;
+      }
+      return true;
+    });
+    this._persist();
+  }
+
+  // Resolves `true` if the batch was delivered or `false` if it was dropped
+  private _whenSettled(state: TransportState, batch: Batch) {
+    return new Promise<boolean>(resolve => {
+      state.waiting = [...state.waiting, { batch, resolve }];
+    });
+  }
+
+  private _drop(
+    state: TransportState,
+    batch: Batch,
+    reason: DropReason,
+    error?: KersplunkError
+  ) {
+    this._settle(state, batch, false);
+    const drop: DroppedBatch = {
+      reason,
+      events: batch.events,
+      bytes: batch.bytes,
+      attempts: batch.attempts,
+      error,
+    };
+    this._counters.dropped += batch.events;
+    this._counters.droppedBatches++;
+    this._events.emit('drop', drop);
+    if (!this._config.onDrop) {
+      return;
+    }
+    try {
+      this._config.onDrop(drop);
     } catch (e) {
-      if (this._config.autoRetry) {
-        setTimeout(
-          () => this._flushBodyWithRetry(body),
-          this._config.autoRetryDuration
+      // Never let a faulty drop handler break logging
+    }
+  }
+
+  private async _restore() {
+    const { storage } = this._config;
+    if (!storage) {
+      return;
+    }
+    let state: PersistedState | undefined;
+    try {
+      const data = await storage.read();
+      const parsed = data ? JSON.parse(data) : undefined;
+      if (parsed && !isPersistedState(parsed)) {
+        throw new Error('Unexpected format');
+      }
+      state = parsed;
+    } catch (e) {
+      this._reportError(
+        new KersplunkError('Unable to restore persisted logs', {
+          retryable: false,
+          cause: e,
+        })
+      );
+    }
+    if (!state) {
+      return;
+    }
+    const persisted = [state, ...(state.routes || [])];
+    this._destinations.forEach((destination, i) => {
+      const { buffer, pending } = persisted[i] || { buffer: [], pending: [] };
+      destination.buffer = [...buffer, ...destination.buffer];
+      destination.bufferBytes = byteLength(destination.buffer.join('\n'));
+      destination.transports.forEach((transportState, j) => {
+        const batches = pending[j] || [];
+        transportState.pending = [...batches, ...transportState.pending];
+        batches.forEach(batch =>
+          this._flushBodyWithRetry(transportState, batch)
         );
+      });
+      if (this._isBufferFull(destination)) {
+        this._flushDestination(destination);
+      } else if (destination.buffer.length) {
+        this._startOrResetBufferTimeout(destination);
       }
+    });
+  }
+
+  // Writes are chained after the restore (and each other) so an older
+  // snapshot can never overwrite a newer one. Changes made while a write
+  // is waiting are coalesced into that write.
+  private _persist() {
+    const { storage } = this._config;
+    if (!storage || this._persistQueued) {
+      return;
     }
+    this._persistQueued = true;
+    this._persisting = this._persisting
+      .then(() => {
+        this._persistQueued = false;
+        const [own, ...routes] = this._destinations.map(
+          ({ buffer, transports }) => ({
+            buffer,
+            pending: transports.map(({ pending }) => pending),
+          })
+        );
+        const state: PersistedState = routes.length ? { ...own, routes } : own;
+        return storage.write(JSON.stringify(state));
+      })
+      .catch(e =>
+        this._reportError(
+          new KersplunkError('Unable to persist logs', {
+            retryable: false,
+            cause: e,
+          })
+        )
+      );
   }
 
-  private _startOrResetBufferTimeout() {
-    if (this._bufferTimeout) {
-      clearTimeout(this._bufferTimeout);
+  private _startOrResetBufferTimeout(destination: Destination) {
+    if (destination.bufferTimeout) {
+      clearTimeout(destination.bufferTimeout);
     }
-    this._bufferTimeout = setTimeout(
-      () => this.flush(),
+    destination.bufferTimeout = setTimeout(
+      () => this._flushDestination(destination),
       this._config.throttleDuration
     );
+    if (!this._keepAlive) {
+      setKeepAlive(destination.bufferTimeout, false);
+    }
+  }
+
+  private _setKeepAlive(keepAlive: boolean) {
+    this._keepAlive = keepAlive;
+    this._destinations.forEach(({ bufferTimeout }) => {
+      if (bufferTimeout) {
+        setKeepAlive(bufferTimeout, keepAlive);
+      }
+    });
+    this._allTransports().forEach(({ retryQueue }) =>
+      retryQueue.keepAlive(keepAlive)
+    );
+    this._metrics.keepAlive(keepAlive);
+    if (this._sampler) {
+      this._sampler.keepAlive(keepAlive);
+    }
   }
 
-  private _clearBufferTimeout() {
-    if (this._bufferTimeout) {
-      clearTimeout(this._bufferTimeout);
-      this._bufferTimeout = undefined;
+  private _clearBufferTimeout(destination: Destination) {
+    if (destination.bufferTimeout) {
+      clearTimeout(destination.bufferTimeout);
+      destination.bufferTimeout = undefined;
     }
   }
 }
@@ -0,0 +1,135 @@
+import {
+  DEFAULT_RETRY_POLICY,
+  retryDelay,
+  RetryPolicy,
+  RetryQueue,
+} from './RetryQueue';
+import { Batch } from './transports';
+
+const policy: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  initialDelay: 1000,
+  jitter: 0,
+};
+
+const batch = (body: string, attempts = 1): Batch => ({
+  body,
+  events: 1,
+  bytes: body.length,
+  attempts,
+});
+
+describe('retryDelay', () => {
+  it('backs off exponentially', () => {
+    expect(retryDelay(policy, 1)).toBe(1000);
+    expect(retryDelay(policy, 2)).toBe(2000);
+    expect(retryDelay(policy, 3)).toBe(4000);
+  });
+
+  it('never exceeds the maxDelay', () => {
+    expect(retryDelay({ ...policy, maxDelay: 3000 }, 10)).toBe(3000);
+  });
+
+  it('randomizes the delay by the jitter fraction', () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(retryDelay({ ...policy, jitter: 0.5 }, 2)).toBe(1500);
+    random.mockRestore();
+  });
+});
+
+describe('RetryQueue', () => {
+  let onRetry: jest.Mock;
+  let onOverflow: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onRetry = jest.fn();
+    onOverflow = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('retries batches after the backoff delay', () => {
+    const queue = new RetryQueue(policy, onRetry, onOverflow);
+    queue.enqueue(batch('one', 2));
+    jest.advanceTimersByTime(1999);
+    expect(onRetry).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+
+    expect(onRetry).toHaveBeenCalledWith(batch('one', 2));
+    expect(queue.batches).toBe(0);
+  });
+
+  it('lets node exit while batches wait when not kept alive', () => {
+    const timer = { ref: jest.fn(), unref: jest.fn() };
+    const setTimeoutSpy = jest
+      .spyOn(global, 'setTimeout')
+      .mockReturnValue(timer as any);
+    const queue = new RetryQueue(policy, onRetry, onOverflow);
+    queue.enqueue(batch('one'));
+    queue.keepAlive(false);
+    queue.enqueue(batch('two'));
+    setTimeoutSpy.mockRestore();
+
+    expect(timer.unref).toHaveBeenCalledTimes(2);
+    queue.keepAlive(true);
+    expect(timer.ref).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the oldest batch when the queue is full', () => {
+    const queue = new RetryQueue(
+      { ...policy, maxQueueBatches: 2 },
+      onRetry,
+      onOverflow
+    );
+    queue.enqueue(batch('one'));
+    queue.enqueue(batch('two'));
+    queue.enqueue(batch('three'));
+    jest.advanceTimersByTime(1000);
+
+    expect(onOverflow).toHaveBeenCalledWith(batch('one'));
+    expect(onRetry.mock.calls).toEqual([[batch('two')], [batch('three')]]);
+  });
+
+  it('drops the newest batch when the queue is full', () => {
+    const queue = new RetryQueue(
+      { ...policy, maxQueueBatches: 2, overflow: 'drop-newest' },
+      onRetry,
+      onOverflow
+    );
+    queue.enqueue(batch('one'));
+    queue.enqueue(batch('two'));
+    queue.enqueue(batch('three'));
+    jest.advanceTimersByTime(1000);
+
+    expect(onOverflow).toHaveBeenCalledWith(batch('three'));
+    expect(onRetry.mock.calls).toEqual([[batch('one')], [batch('two')]]);
+  });
+
+  it('limits the queue by bytes', () => {
+    const queue = new RetryQueue(
+      { ...policy, maxQueueBytes: 8 },
+      onRetry,
+      onOverflow
+    );
+    queue.enqueue(batch('one'));
+    queue.enqueue(batch('two'));
+    queue.enqueue(batch('three'));
+
+    expect(onOverflow.mock.calls).toEqual([[batch('one')]]);
+    expect(queue.bytes).toBe(8);
+  });
+
+  it('cancels pending retries when cleared', () => {
+    const queue = new RetryQueue(policy, onRetry, onOverflow);
+    queue.enqueue(batch('one'));
+    queue.clear();
+    jest.advanceTimersByTime(1000);
+
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { setKeepAlive } from './lifecycle';
+import { Batch } from './transports';
+
+export type RetryPolicy = {
+  maxAttempts: number; // total delivery attempts per batch, including the first
+  initialDelay: number; // ms, defaults to `autoRetryDuration`
+  maxDelay: number; // ms
+  multiplier: number;
+  jitter: number; // 0 - 1, the fraction of each delay that is randomized
+  maxQueueBatches: number;
+  maxQueueBytes: number;
+  overflow: 'drop-oldest' | 'drop-newest';
+};
+
+export const DEFAULT_RETRY_POLICY: Omit<RetryPolicy, 'initialDelay'> = {
+  maxAttempts: Infinity,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxQueueBatches: 100,
+  maxQueueBytes: 5 * 1024 * 1024,
+  overflow: 'drop-oldest',
+};
+
+type QueuedBatch = {
+  batch: Batch;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+export const retryDelay = (policy: RetryPolicy, attempts: number) => {
+  const delay = Math.min(
+    policy.maxDelay,
+    policy.initialDelay * Math.pow(policy.multiplier, Math.max(0, attempts - 1))
+  );
+  return delay * (1 - policy.jitter * Math.random());
+};
+
+export class RetryQueue {
+  private _queue: QueuedBatch[] = [];
+  private _keepAlive = true;
+
+  constructor(
+    public policy: RetryPolicy,
+    private _onRetry: (batch: Batch) => void,
+    private _onOverflow: (batch: Batch) => void
+  ) {}
+
+  public get batches() {
+    return this._queue.length;
+  }
+
+  public get bytes() {
+    return this._queue.reduce((total, { batch }) => total + batch.bytes, 0);
+  }
+
+  public enqueue(batch: Batch) {
+    const { maxQueueBatches, maxQueueBytes, overflow } = this.policy;
+    const fits = () =>
+      this.batches < maxQueueBatches &&
+      this.bytes + batch.bytes <= maxQueueBytes;
+
+    if (overflow === 'drop-oldest') {
+      while (this._queue.length && !fits()) {
+        const [oldest] = this._queue;
+        this._remove(oldest);
+        this._onOverflow(oldest.batch);
+      }
+    }
+    if (!fits()) {
+      this._onOverflow(batch);
+      return;
+    }
+
+    const queued: QueuedBatch = {
+      batch,
+      timer: setTimeout(() => {
+        this._remove(queued);
+        this._onRetry(batch);
+      }, retryDelay(this.policy, batch.attempts)),
+    };
+    if (!this._keepAlive) {
+      setKeepAlive(queued.timer, false);
+    }
+    this._queue.push(queued);
+  }
+
+  // Whether batches waiting to be retried keep node alive
+  public keepAlive(keepAlive: boolean) {
+    this._keepAlive = keepAlive;
+    this._queue.forEach(({ timer }) => setKeepAlive(timer, keepAlive));
+  }
+
+  public clear() {
+    this._queue.forEach(({ timer }) => clearTimeout(timer));
+    this._queue = [];
+  }
+
+  private _remove(queued: QueuedBatch) {
+    clearTimeout(queued.timer);
+    this._queue = this._queue.filter(item => item !== queued);
+  }
+}
@@ -0,0 +1,119 @@
+import { chunkLines, truncateEvent } from './batching';
+import { byteLength } from './byteLength';
+
+describe('chunkLines', () => {
+  it('groups lines into chunks within the byte limit', () => {
+    expect(chunkLines(['aaa', 'bbb', 'ccc', 'ddd'], 7)).toEqual([
+      ['aaa', 'bbb'],
+      ['ccc', 'ddd'],
+    ]);
+  });
+
+  it('gives oversized lines a chunk of their own', () => {
+    expect(chunkLines(['a', 'bbbbbbbbbb', 'c'], 5)).toEqual([
+      ['a'],
+      ['bbbbbbbbbb'],
+      ['c'],
+    ]);
+  });
+
+  it('counts multi-byte characters', () => {
+    expect(chunkLines(['éé', 'éé'], 8)).toEqual([['éé'], ['éé']]);
+  });
+});
+
+describe('truncateEvent', () => {
+  const line = (event: object) => JSON.stringify({ time: 1, event });
+
+  it('truncates the longest string fields first', () => {
+    const truncated = JSON.parse(
+      truncateEvent(
+        line({
+          logType: 'error',
+          eventName: 'boom',
+          message: 'short',
+          stack: 'x'.repeat(1000),
+        }),
+        200
+      )!
+    );
+
+    expect(truncated.event).toEqual({
+      logType: 'error',
+      eventName: 'boom',
+      message: 'short',
+      stack: expect.stringMatching(/^x+\.\.\.\[truncated\]$/),
+      _truncated: ['stack'],
+    });
+  });
+
+  it('truncates nested fields', () => {
+    const truncated = JSON.parse(
+      truncateEvent(line({ error: { stack: 'x'.repeat(1000) } }), 200)!
+    );
+
+    expect(truncated.event._truncated).toEqual(['error.stack']);
+  });
+
+  it('stays within the byte limit', () => {
+    const truncated = truncateEvent(
+      line({ one: 'é'.repeat(500), two: 'x'.repeat(500) }),
+      200
+    );
+
+    expect(byteLength(truncated!)).toBeLessThanOrEqual(200);
+  });
+
+  it('removes the largest fields when truncating strings is not enough', () => {
+    const numbers = Array.from({ length: 100 }, (_, i) => i);
+    const truncated = JSON.parse(
+      truncateEvent(
+        line({ logType: 'info', eventName: 'foo', numbers, tiny: 1 }),
+        100
+      )!
+    );
+
+    expect(truncated.event).toEqual({
+      logType: 'info',
+      eventName: 'foo',
+      tiny: 1,
+      _truncated: ['numbers'],
+    });
+  });
+
+  it('lists a field once when it is truncated and then removed', () => {
+    const truncated = JSON.parse(
+      truncateEvent(
+        line({ d: 'x'.repeat(1000), e: { stack: 'y'.repeat(1000) } }),
+        70
+      )!
+    );
+
+    expect(truncated.event._truncated).toEqual(['d', 'e']);
+  });
+
+  it('removes the largest meta fields when the event alone is not enough', () => {
+    const truncated = JSON.parse(
+      truncateEvent(
+        JSON.stringify({
+          time: 1,
+          fields: { big: 'x'.repeat(1000), small: 1 },
+          event: { eventName: 'foo' },
+        }),
+        120
+      )!
+    );
+
+    expect(truncated).toEqual({
+      time: 1,
+      fields: { small: 1 },
+      event: { eventName: 'foo', _truncated: ['splunkMeta.fields.big'] },
+    });
+  });
+
+  it('returns undefined when the line can not be made to fit', () => {
+    expect(
+      truncateEvent(line({ eventName: 'x'.repeat(1000) }), 200)
+    ).toBeUndefined();
+  });
+});
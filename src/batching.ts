@@ -0,0 +1,133 @@
+import { byteLength } from './byteLength';
+
+const TRUNCATED_SUFFIX = '...[truncated]';
+const PROTECTED_FIELDS = ['logType', 'eventName', '_truncated'];
+
+// Groups serialized events into newline delimited batches that each stay
+// within `maxBytes`. An event that is larger than `maxBytes` on its own is
+// given a batch of its own.
+export const chunkLines = (lines: string[], maxBytes: number) => {
+  const chunks: string[][] = [];
+  let chunk: string[] = [];
+  let chunkBytes = 0;
+  lines.forEach(line => {
+    const lineBytes = byteLength(line);
+    // Each additional line in a chunk is preceded by a newline
+    if (chunk.length && chunkBytes + 1 + lineBytes > maxBytes) {
+      chunks.push(chunk);
+      chunk = [];
+      chunkBytes = 0;
+    }
+    chunkBytes += (chunk.length ? 1 : 0) + lineBytes;
+    chunk.push(line);
+  });
+  if (chunk.length) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+type Leaf = {
+  parent: any;
+  key: string;
+  path: string;
+  length: number;
+};
+
+const collectStrings = (value: any, path: string, leaves: Leaf[]) => {
+  if (!value || typeof value !== 'object') {
+    return leaves;
+  }
+  Object.keys(value).forEach(key => {
+    const childPath = path ? `${path}.${key}` : key;
+    if (typeof value[key] === 'string') {
+      leaves.push({
+        parent: value,
+        key,
+        path: childPath,
+        length: value[key].length,
+      });
+    } else {
+      collectStrings(value[key], childPath, leaves);
+    }
+  });
+  return leaves;
+};
+
+// Removes the largest of the object's (non protected) keys until the line
+// fits, listing them in `truncated` with the given prefix
+const removeLargest = (
+  value: any,
+  prefix: string,
+  truncated: string[],
+  over: () => number
+) =>
+  Object.keys(value)
+    .filter(key => PROTECTED_FIELDS.indexOf(key) < 0)
+    .sort(
+      (a, b) =>
+        byteLength(JSON.stringify(value[b]) || '') -
+        byteLength(JSON.stringify(value[a]) || '')
+    )
+    .forEach(key => {
+      if (over() <= 0) {
+        return;
+      }
+      const path = `${prefix}${key}`;
+      // A removed field replaces the fields truncated within it
+      for (let i = truncated.length - 1; i >= 0; i--) {
+        if (truncated[i] === path || truncated[i].indexOf(`${path}.`) === 0) {
+          truncated.splice(i, 1);
+        }
+      }
+      truncated.push(path);
+      delete value[key];
+    });
+
+// Shrinks a serialized `{...meta, event}` line to fit within `maxBytes`.
+// The longest string fields of the event are truncated first. If that is
+// not enough, the largest remaining fields are removed, followed by the
+// largest of the meta `fields`. The paths of the affected fields are listed
+// in the event's `_truncated` property. Returns `undefined` if the line
+// still does not fit (eg: its event name alone is too long).
+export const truncateEvent = (
+  line: string,
+  maxBytes: number
+): string | undefined => {
+  const envelope = JSON.parse(line);
+  const over = () => byteLength(JSON.stringify(envelope)) - maxBytes;
+  if (typeof envelope.event === 'string') {
+    envelope.event = { message: envelope.event };
+  }
+  const { event } = envelope;
+  const truncated: string[] = [];
+  event._truncated = truncated;
+
+  collectStrings(event, '', [])
+    // Truncating short strings (or the event name) would not save anything
+    .filter(
+      leaf =>
+        leaf.length > TRUNCATED_SUFFIX.length * 2 &&
+        PROTECTED_FIELDS.indexOf(leaf.path) < 0
+    )
+    .sort((a, b) => b.length - a.length)
+    .forEach(leaf => {
+      if (over() <= 0) {
+        return;
+      }
+      truncated.push(leaf.path);
+      const value: string = leaf.parent[leaf.key];
+      const keep = value.length - over() - TRUNCATED_SUFFIX.length;
+      leaf.parent[leaf.key] = `${value.slice(
+        0,
+        Math.max(0, keep)
+      )}${TRUNCATED_SUFFIX}`;
+    });
+
+  removeLargest(event, '', truncated, over);
+  if (envelope.fields && typeof envelope.fields === 'object') {
+    removeLargest(envelope.fields, 'splunkMeta.fields.', truncated, over);
+  }
+
+  return over() > 0 ? undefined : JSON.stringify(envelope);
+};
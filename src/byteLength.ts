@@ -0,0 +1,20 @@
+// Counts the UTF-8 encoded size of a string without relying on
+// Buffer (node) or TextEncoder (browsers).
+export const byteLength = (str: string) => {
+  let bytes = 0;
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code < 0xdc00) {
+      // A surrogate pair encodes to 4 bytes
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+  return bytes;
+};
@@ -0,0 +1,137 @@
+export type InputFormat = 'auto' | 'ndjson' | 'lines';
+
+export type CliOptions = {
+  splunkUrl?: string;
+  authToken?: string;
+  index?: string;
+  sourcetype?: string;
+  source?: string;
+  host?: string;
+  format: InputFormat;
+  logType: string;
+  eventName: string;
+  follow: boolean;
+  timeoutMs: number;
+  files: string[]; // `-` (or none at all) reads stdin
+  help: boolean;
+  version: boolean;
+};
+
+type ValueOption = Exclude<
+  keyof CliOptions,
+  'follow' | 'files' | 'help' | 'version' | 'timeoutMs' | 'format'
+>;
+
+// Flags that take a value, and the environment variables they fall back to
+const VALUE_FLAGS: Record<string, { option: ValueOption; env?: string }> = {
+  '--url': { option: 'splunkUrl', env: 'KERSPLUNK_URL' },
+  '--token': { option: 'authToken', env: 'KERSPLUNK_TOKEN' },
+  '--index': { option: 'index', env: 'KERSPLUNK_INDEX' },
+  '--sourcetype': { option: 'sourcetype', env: 'KERSPLUNK_SOURCETYPE' },
+  '--source': { option: 'source', env: 'KERSPLUNK_SOURCE' },
+  '--host': { option: 'host', env: 'KERSPLUNK_HOST' },
+  '--log-type': { option: 'logType' },
+  '--event-name': { option: 'eventName' },
+};
+
+const FORMATS: InputFormat[] = ['auto', 'ndjson', 'lines'];
+
+export const USAGE = `Usage: kersplunk [options] [file ...]
+
+Sends NDJSON or plain lines from files (or stdin) to Splunk HEC.
+
+Options:
+  --url <url>            HEC event endpoint URL     (KERSPLUNK_URL)
+  --token <token>        HEC token                  (KERSPLUNK_TOKEN)
+  --index <index>        Splunk index               (KERSPLUNK_INDEX)
+  --sourcetype <type>    Splunk sourcetype          (KERSPLUNK_SOURCETYPE)
+  --source <source>      Splunk source              (KERSPLUNK_SOURCE)
+  --host <host>          Splunk host                (KERSPLUNK_HOST)
+  --format <format>      auto, ndjson or lines (default: auto)
+  --log-type <type>      The logType of each event (default: info)
+  --event-name <name>    The eventName of events without one (default: line)
+  -f, --follow           Keep reading lines appended to the file
+  --timeout <ms>         How long to wait for delivery on exit (default: 10000)
+  -h, --help             Show this help
+  --version              Show the version
+`;
+
+// Throws with a message suitable for the user when the arguments are invalid
+export const parseArgs = (
+  argv: string[],
+  env: Record<string, string | undefined> = {}
+): CliOptions => {
+  const options: CliOptions = {
+    format: 'auto',
+    logType: 'info',
+    eventName: 'line',
+    follow: false,
+    timeoutMs: 10000,
+    files: [],
+    help: false,
+    version: false,
+  };
+  Object.keys(VALUE_FLAGS).forEach(flag => {
+    const { option, env: name } = VALUE_FLAGS[flag];
+    const value = name && env[name];
+    if (value) {
+      options[option] = value;
+    }
+  });
+
+  let positionalOnly = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (positionalOnly || arg === '-' || arg.charAt(0) !== '-') {
+      options.files.push(arg);
+      continue;
+    }
+    const equals = arg.indexOf('=');
+    const flag = equals < 0 ? arg : arg.slice(0, equals);
+    const inlineValue = equals < 0 ? undefined : arg.slice(equals + 1);
+    const value = () => {
+      if (inlineValue !== undefined) {
+        return inlineValue;
+      }
+      if (i + 1 >= argv.length) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return argv[++i];
+    };
+    if (flag === '--') {
+      positionalOnly = true;
+    } else if (flag === '-f' || flag === '--follow') {
+      options.follow = true;
+    } else if (flag === '-h' || flag === '--help') {
+      options.help = true;
+    } else if (flag === '--version') {
+      options.version = true;
+    } else if (flag === '--format') {
+      const format = value() as InputFormat;
+      if (FORMATS.indexOf(format) < 0) {
+        throw new Error(
+          `Unknown format "${format}". Expected one of: ${FORMATS.join(', ')}`
+        );
+      }
+      options.format = format;
+    } else if (flag === '--timeout') {
+      const timeoutMs = Number(value());
+      if (!(timeoutMs >= 0)) {
+        throw new Error('--timeout must be a number of milliseconds');
+      }
+      options.timeoutMs = timeoutMs;
+    } else if (VALUE_FLAGS[flag]) {
+      options[VALUE_FLAGS[flag].option] = value();
+    } else {
+      throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  if (options.follow && options.files.length !== 1) {
+    throw new Error('--follow requires exactly one file');
+  }
+  if (options.follow && options.files[0] === '-') {
+    throw new Error('--follow can not be used with stdin');
+  }
+  return options;
+};
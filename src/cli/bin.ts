@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+import { runCli } from './run';
+
+// The first Ctrl+C (or SIGTERM) stops reading and sends what was read,
+// waiting up to `--timeout`. A second one exits right away.
+const stopped = new Promise<void>(resolve => {
+  let signals = 0;
+  const stop = () => {
+    signals++;
+    if (signals > 1) {
+      process.exit(130);
+    }
+    resolve();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+});
+
+runCli(process.argv.slice(2), process.env, {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  stopped,
+}).then(code => process.exit(code));
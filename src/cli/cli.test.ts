@@ -0,0 +1,222 @@
+import {
+  appendFileSync,
+  mkdtempSync,
+  rmdirSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { HecTestServer } from '../testing';
+import { parseArgs } from './args';
+import { runCli } from './run';
+
+const capture = () => {
+  const stream = new PassThrough();
+  let output = '';
+  stream.on('data', chunk => (output += chunk));
+  return { stream, output: () => output };
+};
+
+describe('parseArgs', () => {
+  it('falls back to environment variables', () => {
+    expect(
+      parseArgs(['--index', 'main'], {
+        KERSPLUNK_URL: 'https://splunk',
+        KERSPLUNK_TOKEN: 'TOKEN',
+        KERSPLUNK_INDEX: 'other',
+      })
+    ).toEqual(
+      expect.objectContaining({
+        splunkUrl: 'https://splunk',
+        authToken: 'TOKEN',
+        index: 'main',
+        files: [],
+      })
+    );
+  });
+
+  it('supports inline values and files after --', () => {
+    expect(
+      parseArgs(['--sourcetype=app:json', 'a.log', '--', '--b.log'])
+    ).toEqual(
+      expect.objectContaining({
+        sourcetype: 'app:json',
+        files: ['a.log', '--b.log'],
+      })
+    );
+  });
+
+  it('rejects unknown options and invalid values', () => {
+    expect(() => parseArgs(['--nope'])).toThrow('Unknown option --nope');
+    expect(() => parseArgs(['--format', 'xml'])).toThrow('Unknown format');
+    expect(() => parseArgs(['--timeout', 'soon'])).toThrow('--timeout');
+    expect(() => parseArgs(['--index'])).toThrow('Missing value for --index');
+  });
+
+  it('requires a single file to follow', () => {
+    expect(() => parseArgs(['-f'])).toThrow('exactly one file');
+    expect(() => parseArgs(['-f', '-'])).toThrow('stdin');
+  });
+});
+
+describe('runCli', () => {
+  let server: HecTestServer;
+  let dir: string;
+  let stdin: PassThrough;
+  let stdout: ReturnType<typeof capture>;
+  let stderr: ReturnType<typeof capture>;
+  let files: string[];
+
+  const run = (argv: string[], stopped?: Promise<void>) =>
+    runCli(
+      argv,
+      { KERSPLUNK_URL: server.url, KERSPLUNK_TOKEN: server.token },
+      {
+        stdin,
+        stdout: stdout.stream,
+        stderr: stderr.stream,
+        stopped,
+        pollInterval: 10,
+      }
+    );
+
+  const tempFile = (name: string, contents: string) => {
+    const file = join(dir, name);
+    writeFileSync(file, contents);
+    files = [...files, file];
+    return file;
+  };
+
+  beforeEach(async () => {
+    server = new HecTestServer();
+    await server.start();
+    dir = mkdtempSync(join(tmpdir(), 'kersplunk-'));
+    files = [];
+    stdin = new PassThrough();
+    stdout = capture();
+    stderr = capture();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    files.forEach(file => unlinkSync(file));
+    rmdirSync(dir);
+  });
+
+  it('prints the usage', async () => {
+    expect(await run(['--help'])).toBe(0);
+    expect(stdout.output()).toContain('Usage: kersplunk');
+  });
+
+  it('fails without a URL and token', async () => {
+    const code = await runCli(
+      [],
+      {},
+      { stdin, stdout: stdout.stream, stderr: stderr.stream }
+    );
+    expect(code).toBe(2);
+    expect(stderr.output()).toContain('A HEC URL');
+  });
+
+  it('sends NDJSON and plain lines from stdin', async () => {
+    stdin.end('{"eventName":"user:login","userId":1}\r\nplain text\n\n{"n":2}');
+    expect(await run(['--index', 'main', '--event-name', 'app'])).toBe(0);
+    expect(server.events.map(({ event }) => event)).toEqual([
+      { logType: 'info', eventName: 'user:login', userId: 1 },
+      { logType: 'info', eventName: 'app', message: 'plain text' },
+      { logType: 'info', eventName: 'app', n: 2 },
+    ]);
+    expect(server.events[0].meta).toEqual(
+      expect.objectContaining({ index: 'main' })
+    );
+    expect(stderr.output()).toBe('kersplunk: sent 3 events\n');
+  });
+
+  it('sends JSON as plain lines with --format lines', async () => {
+    stdin.end('{"a":1}\n');
+    expect(await run(['--format', 'lines', '--log-type', 'audit'])).toBe(0);
+    expect(server.events[0].event).toEqual({
+      logType: 'audit',
+      eventName: 'line',
+      message: '{"a":1}',
+    });
+  });
+
+  it('reports lines that are not JSON objects with --format ndjson', async () => {
+    const file = tempFile('events.ndjson', '{"a":1}\nnot json\n[1]\n');
+    expect(await run(['--format=ndjson', file])).toBe(1);
+    expect(server.events).toHaveLength(1);
+    expect(stderr.output()).toContain(`${file}:2 is not a JSON object`);
+    expect(stderr.output()).toContain(`${file}:3 is not a JSON object`);
+    expect(stderr.output()).toContain('sent 1 event, 2 could not be sent');
+  });
+
+  it('reads several files in order', async () => {
+    const first = tempFile('first.log', 'one\n');
+    const second = tempFile('second.log', 'two');
+    expect(await run([first, second])).toBe(0);
+    expect(server.events.map(({ event }) => (event as any).message)).toEqual([
+      'one',
+      'two',
+    ]);
+  });
+
+  it('exits with an error when events could not be delivered', async () => {
+    server.failNext({ status: 403, code: 4, text: 'Invalid token' });
+    stdin.end('one\ntwo\n');
+    expect(await run(['--timeout', '1000'])).toBe(1);
+    expect(stderr.output()).toContain('Invalid token');
+    expect(stderr.output()).toContain('sent 0 events, 2 could not be sent');
+  });
+
+  it('gives up reading when nothing is delivered within the timeout', async () => {
+    server.healthy = false;
+    const lines = Array.from({ length: 700 }, (_, i) => `line ${i}`);
+    const file = tempFile('large.log', `${lines.join('\n')}\n`);
+    expect(await run(['--timeout', '200', file])).toBe(1);
+    expect(stderr.output()).toContain(
+      'Nothing was delivered for 200ms, giving up'
+    );
+    expect(stderr.output()).toContain('sent 0 events, 500 could not be sent');
+  });
+
+  it('stops reading and sends what was read once stopped', async () => {
+    let stop = () => undefined as void;
+    const stopped = new Promise<void>(resolve => (stop = resolve));
+    const running = run([], stopped);
+    stdin.write('one\ntwo\n');
+    await server.waitForEvents(2);
+    stop();
+    stdin.write('three\n');
+
+    expect(await running).toBe(0);
+    expect(stderr.output()).toContain('stopped before the end of the input');
+    expect(server.events).toHaveLength(2);
+  });
+
+  it('exits with an error when a file can not be read', async () => {
+    expect(await run([join(dir, 'missing.log')])).toBe(1);
+    expect(stderr.output()).toContain('ENOENT');
+  });
+
+  it('follows lines appended to a file until stopped', async () => {
+    const file = tempFile('app.log', 'first\n');
+    let stop = () => undefined as void;
+    const stopped = new Promise<void>(resolve => (stop = resolve));
+    const running = run(['--follow', file], stopped);
+    await server.waitForEvents(1);
+    appendFileSync(file, 'second\nthi');
+    appendFileSync(file, 'rd\nlast');
+    await server.waitForEvents(3);
+    stop();
+    expect(await running).toBe(0);
+    expect(server.events.map(({ event }) => (event as any).message)).toEqual([
+      'first',
+      'second',
+      'third',
+      'last',
+    ]);
+  });
+});
@@ -0,0 +1,278 @@
+import { createReadStream, promises as fs, unwatchFile, watchFile } from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { Logger, SplunkMeta } from '../Logger';
+import { version } from '../version.json';
+import { CliOptions, parseArgs, USAGE } from './args';
+
+export type CliIO = {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  stopped?: Promise<void>; // resolves when reading should stop (eg: SIGINT)
+  pollInterval?: number; // ms between checks of a followed file, defaults to 500
+};
+
+type ReadResult = {
+  remainder: string; // the trailing partial line
+  bytes: number;
+};
+
+// Reading pauses while this many batches are waiting to be delivered
+const MAX_PENDING_BATCHES = 10;
+
+// Rejects reading once `stopped` resolves
+const STOPPED = new Error('Stopped');
+
+// Calls `onLine` for each complete line, one at a time, pausing the stream
+// while it waits
+const readLines = (
+  input: NodeJS.ReadableStream,
+  onLine: (line: string) => void | Promise<void>,
+  remainder = ''
+) =>
+  new Promise<ReadResult>((resolve, reject) => {
+    const decoder = new StringDecoder('utf8');
+    let bytes = 0;
+    let reading = Promise.resolve();
+    input.on('data', (chunk: Buffer) => {
+      bytes += chunk.length;
+      const lines = (remainder + decoder.write(chunk)).split('\n');
+      remainder = lines.pop() || '';
+      input.pause();
+      reading = reading
+        .then(async () => {
+          for (const line of lines) {
+            await onLine(line);
+          }
+          input.resume();
+        })
+        .catch(reject);
+    });
+    input.on('end', () =>
+      reading.then(
+        () => resolve({ remainder: remainder + decoder.end(), bytes }),
+        reject
+      )
+    );
+    input.on('error', reject);
+  });
+
+const parseObject = (line: string): object | undefined => {
+  try {
+    const parsed = JSON.parse(line);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? parsed
+      : undefined;
+  } catch (e) {
+    return;
+  }
+};
+
+// Leaves out what was not given so the logger's defaults apply
+const definedMeta = (meta: Record<string, string | undefined>): SplunkMeta =>
+  Object.keys(meta).reduce(
+    (defined, key) =>
+      meta[key] === undefined ? defined : { ...defined, [key]: meta[key] },
+    {}
+  );
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Runs the `kersplunk` command. Resolves with the exit code: 0 when every
+// event was delivered, 1 when some could not be and 2 for usage errors.
+export const runCli = async (
+  argv: string[],
+  env: Record<string, string | undefined>,
+  io: CliIO
+): Promise<number> => {
+  const fail = (message: string) => {
+    io.stderr.write(`kersplunk: ${message}\n\n${USAGE}`);
+    return 2;
+  };
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv, env);
+  } catch (e) {
+    return fail(e.message);
+  }
+  if (options.help) {
+    io.stdout.write(USAGE);
+    return 0;
+  }
+  if (options.version) {
+    io.stdout.write(`${version}\n`);
+    return 0;
+  }
+  const { splunkUrl, authToken } = options;
+  if (!splunkUrl || !authToken) {
+    return fail(
+      'A HEC URL (--url or KERSPLUNK_URL) and token (--token or KERSPLUNK_TOKEN) are required'
+    );
+  }
+
+  const logger = Logger.create(
+    {
+      splunkUrl,
+      authToken,
+      splunkMeta: definedMeta({
+        index: options.index,
+        sourcetype: options.sourcetype,
+        source: options.source,
+        host: options.host,
+      }),
+    },
+    options.logType
+  );
+  const log = logger[options.logType];
+  logger.on('error', error => io.stderr.write(`kersplunk: ${error.message}\n`));
+  const stopped = io.stopped || new Promise<void>(() => undefined);
+  let stopping = false;
+  stopped.then(() => {
+    stopping = true;
+  });
+
+  let invalid = 0;
+  let incomplete = false; // the input could not be read to the end
+  let lineNumber = 0;
+  const send = (line: string, file: string) => {
+    lineNumber++;
+    const text = line.replace(/\r$/, '');
+    if (!text.trim()) {
+      return;
+    }
+    const details = options.format === 'lines' ? undefined : parseObject(text);
+    if (details) {
+      // Objects keep their own eventName (and logType), if they have one
+      log(options.eventName, details);
+    } else if (options.format === 'ndjson') {
+      invalid++;
+      io.stderr.write(
+        `kersplunk: ${file}:${lineNumber} is not a JSON object\n`
+      );
+    } else {
+      log(options.eventName, { message: text });
+    }
+  };
+
+  // Resolves once fewer batches are pending, so large inputs are not read
+  // into memory faster than they can be delivered. Gives up when nothing
+  // is delivered within the timeout (eg: while HEC is down).
+  const whenDelivering = () =>
+    logger.stats().pendingBatches < MAX_PENDING_BATCHES
+      ? Promise.resolve()
+      : new Promise<void>((resolve, reject) => {
+          const done = (error?: Error) => {
+            clearTimeout(timer);
+            unsubscribe.forEach(off => off());
+            if (error) {
+              reject(error);
+            } else {
+              resolve();
+            }
+          };
+          const timer = setTimeout(
+            () =>
+              done(
+                new Error(
+                  `Nothing was delivered for ${options.timeoutMs}ms, giving up`
+                )
+              ),
+            options.timeoutMs
+          );
+          const check = () => {
+            if (logger.stats().pendingBatches < MAX_PENDING_BATCHES) {
+              done();
+            }
+          };
+          const unsubscribe = [
+            logger.on('sent', check),
+            logger.on('drop', check),
+          ];
+          stopped.then(() => done(STOPPED));
+        });
+
+  const readInput = (file: string, input: NodeJS.ReadableStream) => {
+    lineNumber = 0;
+    return readLines(input, line => {
+      if (stopping) {
+        return Promise.reject(STOPPED);
+      }
+      send(line, file);
+      return whenDelivering();
+    });
+  };
+
+  const follow = async (file: string, position: number, remainder: string) => {
+    let reading = Promise.resolve();
+    const check = () => {
+      reading = reading
+        .then(async () => {
+          const { size } = await fs
+            .stat(file)
+            .catch(() => ({ size: position }));
+          if (size < position) {
+            // Truncated, start over from the beginning
+            position = 0;
+            remainder = '';
+          }
+          if (size > position) {
+            const read = await readLines(
+              createReadStream(file, { start: position, end: size - 1 }),
+              line => send(line, file),
+              remainder
+            );
+            position += read.bytes;
+            remainder = read.remainder;
+          }
+        })
+        .catch(error => {
+          io.stderr.write(`kersplunk: ${error.message}\n`);
+        });
+    };
+    watchFile(file, { interval: io.pollInterval || 500 }, check);
+    check();
+    await stopped;
+    unwatchFile(file, check);
+    check();
+    await reading;
+    return remainder;
+  };
+
+  try {
+    const files = options.files.length ? options.files : ['-'];
+    for (const file of files) {
+      const name = file === '-' ? 'stdin' : file;
+      const stream = file === '-' ? undefined : createReadStream(file);
+      let read: ReadResult;
+      try {
+        read = await readInput(name, stream || io.stdin);
+      } finally {
+        if (stream) {
+          stream.destroy();
+        }
+      }
+      const remainder = options.follow
+        ? await follow(file, read.bytes, read.remainder)
+        : read.remainder;
+      send(remainder, name);
+    }
+  } catch (e) {
+    if (e === STOPPED) {
+      io.stderr.write('kersplunk: stopped before the end of the input\n');
+    } else {
+      io.stderr.write(`kersplunk: ${e.message}\n`);
+      incomplete = true;
+    }
+  }
+
+  await logger.close({ timeoutMs: options.timeoutMs });
+  const { buffered, sent } = logger.stats();
+  const failed = buffered - sent + invalid;
+  io.stderr.write(
+    `kersplunk: sent ${plural(sent, 'event')}${
+      failed ? `, ${failed} could not be sent` : ''
+    }\n`
+  );
+  return failed || incomplete ? 1 : 0;
+};
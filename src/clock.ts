@@ -0,0 +1,6 @@
+// Milliseconds from a monotonic clock where available so durations are
+// not skewed by changes to the system time
+export const now = () =>
+  typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
@@ -0,0 +1,25 @@
+import { gunzipSync } from 'zlib';
+import { fromBase64, gzip, toBase64 } from './compression';
+
+describe('gzip', () => {
+  it('compresses the data', async () => {
+    const compressed = await gzip('hello hello hello');
+
+    expect(gunzipSync(compressed!).toString()).toBe('hello hello hello');
+  });
+});
+
+describe('base64', () => {
+  it('round trips bytes', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+
+    expect(toBase64(bytes)).toBe('AAF/gP8=');
+    expect(Array.from(fromBase64(toBase64(bytes)))).toEqual([
+      0,
+      1,
+      127,
+      128,
+      255,
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import * as zlib from 'zlib';
+
+const globalScope: any = typeof globalThis !== 'undefined' ? globalThis : {};
+
+const gzipWithZlib = (data: string) =>
+  new Promise<Uint8Array>((resolve, reject) =>
+    zlib.gzip(data, (err, result) => (err ? reject(err) : resolve(result)))
+  );
+
+const gzipWithCompressionStream = async (data: string) => {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough<Uint8Array>(new globalScope.CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Uses zlib in node and CompressionStream in browsers that support it.
+// Resolves `undefined` when neither is available.
+export const gzip = async (data: string): Promise<Uint8Array | undefined> => {
+  if (zlib && typeof zlib.gzip === 'function') {
+    return gzipWithZlib(data);
+  }
+  if (typeof globalScope.CompressionStream === 'function') {
+    return gzipWithCompressionStream(data);
+  }
+  return;
+};
+
+export const toBase64 = (bytes: Uint8Array) => {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes).toString('base64');
+  }
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+};
+
+export const fromBase64 = (encoded: string): Uint8Array => {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(encoded, 'base64');
+  }
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
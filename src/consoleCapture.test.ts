@@ -0,0 +1,91 @@
+// tslint:disable no-console
+import {
+  formatConsoleArgs,
+  installConsoleCapture,
+  writeToConsole,
+} from './consoleCapture';
+
+describe('consoleCapture', () => {
+  describe('formatConsoleArgs', () => {
+    it('joins the arguments into a message', () => {
+      expect(formatConsoleArgs(['Loaded', 3, { items: ['a'] }, null])).toEqual({
+        message: 'Loaded 3 {"items":["a"]} null',
+        error: undefined,
+      });
+    });
+
+    it('picks out the first error', () => {
+      const error = new TypeError('Boom!');
+
+      expect(
+        formatConsoleArgs(['Failed:', error, new Error('Other')])
+      ).toEqual({ message: 'Failed: TypeError: Boom! Error: Other', error });
+    });
+
+    it('handles circular arguments', () => {
+      const circular: any = {};
+      circular.self = circular;
+
+      expect(formatConsoleArgs([circular]).message).toBe(
+        '{"self":"[Circular]"}'
+      );
+    });
+  });
+
+  describe('installConsoleCapture', () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+      warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    it('forwards messages while still printing them', () => {
+      const forward = jest.fn();
+      const uninstall = installConsoleCapture(['warn'], forward);
+      console.warn('careful', 1);
+      uninstall();
+
+      expect(warn).toHaveBeenCalledWith('careful', 1);
+      expect(forward).toHaveBeenCalledWith('warn', ['careful', 1]);
+    });
+
+    it('does not capture messages written while forwarding', () => {
+      const forward = jest.fn(() => console.warn('from the logger'));
+      const uninstall = installConsoleCapture(['warn'], forward);
+      console.warn('careful');
+      uninstall();
+
+      expect(forward).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledTimes(2);
+    });
+
+    it('writes to the original console', () => {
+      const forward = jest.fn();
+      const uninstall = installConsoleCapture(['warn'], forward);
+      writeToConsole('warn', 'direct');
+      uninstall();
+
+      expect(warn).toHaveBeenCalledWith('direct');
+      expect(forward).not.toHaveBeenCalled();
+    });
+
+    it('restores the console when uninstalled', () => {
+      const forward = jest.fn();
+      installConsoleCapture(['warn'], forward)();
+      console.warn('careful');
+
+      expect(console.warn).toBe(warn);
+      expect(forward).not.toHaveBeenCalled();
+    });
+
+    it('keeps wrappers added after it when uninstalled', () => {
+      const forward = jest.fn();
+      const uninstall = installConsoleCapture(['warn'], forward);
+      const laterWrapper = jest.fn();
+      console.warn = laterWrapper;
+      uninstall();
+
+      expect(console.warn).toBe(laterWrapper);
+    });
+  });
+});
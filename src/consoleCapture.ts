@@ -0,0 +1,97 @@
+// tslint:disable no-console
+import { toSerializable } from './serialize';
+
+export type ConsoleMethod =
+  | 'log'
+  | 'info'
+  | 'debug'
+  | 'warn'
+  | 'error'
+  | 'trace';
+
+export type ConsoleCaptureOptions = {
+  methods?: ConsoleMethod[]; // defaults to `warn` and `error`
+  logTypeMap?: Partial<Record<ConsoleMethod, string>>;
+};
+
+type ConsoleFunction = (...args: unknown[]) => void;
+
+// The console methods in place before they were first captured
+const originals: Partial<Record<ConsoleMethod, ConsoleFunction>> = {};
+// Set while a captured message is being logged so anything the logger
+// writes to the console (eg: `logToConsole`) is not captured again
+let forwarding = false;
+
+// Writes to the real console, bypassing any capture
+export const writeToConsole = (method: ConsoleMethod, ...args: unknown[]) => {
+  const write = originals[method] || (console[method] as ConsoleFunction);
+  write.apply(console, args);
+};
+
+const SERIALIZE_OPTIONS = {
+  errorFormatter: (err: Error) => ({ name: err.name, message: err.message }),
+  maxDepth: 5,
+  maxArrayLength: 100,
+  maxStringLength: 10000,
+};
+
+const formatArg = (arg: unknown) => {
+  if (typeof arg === 'string') {
+    return arg;
+  }
+  if (arg instanceof Error) {
+    return `${arg.name}: ${arg.message}`;
+  }
+  const serializable = toSerializable(arg, SERIALIZE_OPTIONS);
+  return typeof serializable === 'string'
+    ? serializable
+    : String(JSON.stringify(serializable));
+};
+
+// Joins the arguments into a message (like the console would print them)
+// and picks out the first Error so it can be formatted
+export const formatConsoleArgs = (args: unknown[]) => ({
+  message: args.map(formatArg).join(' '),
+  error: args.filter((arg): arg is Error => arg instanceof Error)[0],
+});
+
+export const installConsoleCapture = (
+  methods: ConsoleMethod[],
+  forward: (method: ConsoleMethod, args: unknown[]) => void
+): (() => void) => {
+  let active = true;
+  const wrappers = methods.map(method => {
+    const previous = console[method] as ConsoleFunction;
+    if (!originals[method]) {
+      originals[method] = previous;
+    }
+    const wrapper: ConsoleFunction = (...args) => {
+      previous.apply(console, args);
+      if (!active || forwarding) {
+        return;
+      }
+      forwarding = true;
+      try {
+        forward(method, args);
+      } finally {
+        forwarding = false;
+      }
+    };
+    console[method] = wrapper;
+    return { method, previous, wrapper };
+  });
+
+  return () => {
+    active = false;
+    wrappers.forEach(({ method, previous, wrapper }) => {
+      // Leave the (now inactive) wrapper if something else has wrapped the
+      // console since, otherwise their wrapper would be lost
+      if (console[method] === wrapper) {
+        console[method] = previous;
+        if (originals[method] === previous) {
+          delete originals[method];
+        }
+      }
+    });
+  };
+};
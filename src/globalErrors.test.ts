@@ -0,0 +1,155 @@
+import * as clockModule from './clock';
+import { installGlobalErrorHooks } from './globalErrors';
+
+describe('installGlobalErrorHooks', () => {
+  const rejectionEvent = (reason: unknown) =>
+    Object.assign(new Event('unhandledrejection'), { reason });
+
+  describe('browser', () => {
+    it('reports uncaught errors', () => {
+      const report = jest.fn();
+      const error = new Error('Boom!');
+      const uninstall = installGlobalErrorHooks(
+        { report, flush: jest.fn() },
+        { environment: 'browser' }
+      );
+      window.dispatchEvent(new ErrorEvent('error', { error }));
+      uninstall();
+
+      expect(report).toHaveBeenCalledWith('uncaughtException', error, 0);
+    });
+
+    it('reports errors without an error object', () => {
+      const report = jest.fn();
+      const uninstall = installGlobalErrorHooks(
+        { report, flush: jest.fn() },
+        { environment: 'browser' }
+      );
+      window.dispatchEvent(
+        new ErrorEvent('error', {
+          message: 'Script error.',
+          filename: 'app.js',
+          lineno: 1,
+          colno: 2,
+        })
+      );
+      uninstall();
+
+      expect(report).toHaveBeenCalledWith(
+        'uncaughtException',
+        new Error('Script error. (app.js:1:2)'),
+        0
+      );
+    });
+
+    it('reports unhandled rejections', () => {
+      const report = jest.fn();
+      const uninstall = installGlobalErrorHooks(
+        { report, flush: jest.fn() },
+        { environment: 'browser' }
+      );
+      window.dispatchEvent(rejectionEvent('nope'));
+      uninstall();
+
+      expect(report).toHaveBeenCalledWith('unhandledRejection', 'nope', 0);
+    });
+
+    it('removes the hooks when uninstalled', () => {
+      const report = jest.fn();
+      installGlobalErrorHooks(
+        { report, flush: jest.fn() },
+        { environment: 'browser' }
+      )();
+      window.dispatchEvent(rejectionEvent('nope'));
+
+      expect(report).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('de-duplication', () => {
+    let time: number;
+
+    beforeEach(() => {
+      time = 0;
+      jest.spyOn(clockModule, 'now').mockImplementation(() => time);
+    });
+
+    const install = (report: jest.Mock, maxErrors?: number) =>
+      installGlobalErrorHooks(
+        { report, flush: jest.fn() },
+        { environment: 'browser', dedupeInterval: 1000, maxErrors }
+      );
+
+    it('suppresses repeats of the same error for the interval', () => {
+      const report = jest.fn();
+      const uninstall = install(report);
+      window.dispatchEvent(rejectionEvent('same'));
+      window.dispatchEvent(rejectionEvent('same'));
+      window.dispatchEvent(rejectionEvent('same'));
+      time = 1000;
+      window.dispatchEvent(rejectionEvent('same'));
+      uninstall();
+
+      expect(report.mock.calls).toEqual([
+        ['unhandledRejection', 'same', 0],
+        ['unhandledRejection', 'same', 2],
+      ]);
+    });
+
+    it('caps the number of errors per interval', () => {
+      const report = jest.fn();
+      const uninstall = install(report, 2);
+      window.dispatchEvent(rejectionEvent('one'));
+      window.dispatchEvent(rejectionEvent('two'));
+      window.dispatchEvent(rejectionEvent('three'));
+      time = 1000;
+      window.dispatchEvent(rejectionEvent('four'));
+      uninstall();
+
+      expect(report.mock.calls.map(([, reason]) => reason)).toEqual([
+        'one',
+        'two',
+        'four',
+      ]);
+    });
+  });
+
+  describe('node', () => {
+    beforeEach(() => {
+      jest.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    it('flushes and exits when nothing else handles the error', async () => {
+      const report = jest.fn();
+      const flush = jest.fn().mockResolvedValue(undefined);
+      const error = new Error('Boom!');
+      jest.spyOn(process, 'listenerCount').mockReturnValue(1);
+      const uninstall = installGlobalErrorHooks(
+        { report, flush },
+        { environment: 'node' }
+      );
+      process.emit('unhandledRejection', error, Promise.resolve());
+      uninstall();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(report).toHaveBeenCalledWith('unhandledRejection', error, 0);
+      expect(flush).toHaveBeenCalled();
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+
+    it('does not exit when something else handles the error', async () => {
+      const flush = jest.fn().mockResolvedValue(undefined);
+      jest.spyOn(process, 'listenerCount').mockReturnValue(2);
+      const uninstall = installGlobalErrorHooks(
+        { report: jest.fn(), flush },
+        { environment: 'node' }
+      );
+      process.emit('unhandledRejection', 'nope', Promise.resolve());
+      uninstall();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(process.exit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { now } from './clock';
+import { detectEnvironment, withDeadline } from './lifecycle';
+
+export type GlobalErrorOptions = {
+  logType?: string; // defaults to `error`, or the last log type
+  dedupeInterval?: number; // ms that repeats of the same error are suppressed
+  maxErrors?: number; // the most errors logged per `dedupeInterval`
+  timeoutMs?: number; // how long node waits for the flush before exiting
+  environment?: 'browser' | 'node';
+};
+
+export type GlobalErrorKind = 'uncaughtException' | 'unhandledRejection';
+
+type GlobalErrorHandlers = {
+  // `suppressed` counts the repeats of this error that were not logged
+  report: (kind: GlobalErrorKind, error: unknown, suppressed: number) => void;
+  flush: () => Promise<void>;
+};
+
+const fingerprint = (error: unknown) => {
+  if (error instanceof Error) {
+    const [, firstFrame = ''] = (error.stack || '').split('\n');
+    return `${error.name}:${error.message}:${firstFrame.trim()}`;
+  }
+  try {
+    return `${typeof error}:${JSON.stringify(error)}`;
+  } catch (e) {
+    return `${typeof error}:${String(error)}`;
+  }
+};
+
+// Lets each distinct error through once per interval (counting the repeats
+// that were suppressed) and caps the total so an error loop can not flood
+// the logs.
+const createThrottle = (interval: number, maxErrors: number) => {
+  let windowStart = now();
+  let logged = 0;
+  let seen: Record<string, { at: number; suppressed: number }> = {};
+  return (error: unknown): number | undefined => {
+    const time = now();
+    if (time - windowStart >= interval) {
+      windowStart = time;
+      logged = 0;
+      // Forget errors that have not repeated so `seen` can not grow forever
+      seen = Object.keys(seen).reduce(
+        (acc, seenKey) =>
+          seen[seenKey].suppressed || time - seen[seenKey].at < interval
+            ? { ...acc, [seenKey]: seen[seenKey] }
+            : acc,
+        {}
+      );
+    }
+    const key = fingerprint(error);
+    const previous = seen[key];
+    if (previous && time - previous.at < interval) {
+      previous.suppressed++;
+      return;
+    }
+    if (logged >= maxErrors) {
+      return;
+    }
+    logged++;
+    const suppressed = previous ? previous.suppressed : 0;
+    seen = { ...seen, [key]: { at: time, suppressed: 0 } };
+    return suppressed;
+  };
+};
+
+const installBrowserHooks = (
+  report: (kind: GlobalErrorKind, error: unknown) => void
+) => {
+  const onError = (event: ErrorEvent) =>
+    report(
+      'uncaughtException',
+      event.error ||
+        new Error(
+          `${event.message}${
+            event.filename
+              ? ` (${event.filename}:${event.lineno}:${event.colno})`
+              : ''
+          }`
+        )
+    );
+  const onRejection = (event: PromiseRejectionEvent) =>
+    report('unhandledRejection', event.reason);
+  window.addEventListener('error', onError);
+  window.addEventListener('unhandledrejection', onRejection);
+
+  return () => {
+    window.removeEventListener('error', onError);
+    window.removeEventListener('unhandledrejection', onRejection);
+  };
+};
+
+const installNodeHooks = (
+  report: (kind: GlobalErrorKind, error: unknown) => void,
+  flush: () => Promise<void>,
+  timeoutMs: number
+) => {
+  // Handling these events stops node from crashing. Unless someone else
+  // handles them too, flush the logs and then exit like node would have.
+  const handle = (kind: GlobalErrorKind) => (error: unknown) => {
+    report(kind, error);
+    if (process.listenerCount(kind) > 1) {
+      return;
+    }
+    withDeadline(flush(), timeoutMs).then(() => {
+      console.error(error); // tslint:disable-line no-console
+      process.exit(1);
+    });
+  };
+  const onException = handle('uncaughtException');
+  const onRejection = handle('unhandledRejection');
+  process.on('uncaughtException', onException);
+  process.on('unhandledRejection', onRejection);
+
+  return () => {
+    process.removeListener('uncaughtException', onException);
+    process.removeListener('unhandledRejection', onRejection);
+  };
+};
+
+export const installGlobalErrorHooks = (
+  { report, flush }: GlobalErrorHandlers,
+  {
+    dedupeInterval = 60000,
+    maxErrors = 20,
+    timeoutMs = 2000,
+    environment,
+  }: GlobalErrorOptions
+): (() => void) => {
+  const throttle = createThrottle(dedupeInterval, maxErrors);
+  const throttledReport = (kind: GlobalErrorKind, error: unknown) => {
+    const suppressed = throttle(error);
+    if (suppressed !== undefined) {
+      report(kind, error, suppressed);
+    }
+  };
+  switch (environment || detectEnvironment()) {
+    case 'browser':
+      return installBrowserHooks(throttledReport);
+    case 'node':
+      return installNodeHooks(throttledReport, flush, timeoutMs);
+    default:
+      return () => undefined;
+  }
+};
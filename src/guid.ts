@@ -0,0 +1,33 @@
+const randomBytes = (length: number) => {
+  const bytes = new Uint8Array(length);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(bytes);
+  }
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+};
+
+const hex = (bytes: Uint8Array): string =>
+  Array.prototype.map
+    .call(bytes, (byte: number) => (byte + 0x100).toString(16).slice(1))
+    .join('');
+
+// Generates a random hex string of the given number of bytes
+export const randomHex = (length: number) => hex(randomBytes(length));
+
+// Generates a random (v4) GUID
+export const createGuid = () => {
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // tslint:disable-line no-bitwise
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // tslint:disable-line no-bitwise
+  const id = hex(bytes);
+  return [
+    id.slice(0, 8),
+    id.slice(8, 12),
+    id.slice(12, 16),
+    id.slice(16, 20),
+    id.slice(20),
+  ].join('-');
+};
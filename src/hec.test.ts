@@ -0,0 +1,95 @@
+import { collectorUrl, hecErrorFromResponse, toRawRequests } from './hec';
+
+describe('hecErrorFromResponse', () => {
+  it('returns nothing for successful responses', () => {
+    expect(
+      hecErrorFromResponse(200, '{"text":"Success","code":0}')
+    ).toBeUndefined();
+  });
+
+  it.each([
+    [503, { text: 'Server is busy', code: 9 }],
+    [500, { text: 'Internal server error', code: 8 }],
+    [429, {}],
+    [502, {}],
+  ])('treats %s %j as retryable', (status, body) => {
+    expect(hecErrorFromResponse(status, JSON.stringify(body))).toEqual(
+      expect.objectContaining({ status, retryable: true })
+    );
+  });
+
+  it.each([
+    [403, { text: 'Invalid token', code: 4 }],
+    [403, { text: 'Token disabled', code: 1 }],
+    [400, { text: 'Invalid data format', code: 6 }],
+  ])('treats %s %j as fatal', (status, body) => {
+    expect(hecErrorFromResponse(status, JSON.stringify(body))).toEqual(
+      expect.objectContaining({ status, code: body.code, retryable: false })
+    );
+  });
+
+  it('tolerates responses that are not JSON', () => {
+    expect(hecErrorFromResponse(502, '<html>Bad Gateway</html>')).toEqual(
+      expect.objectContaining({
+        message: 'Splunk HEC responded with 502',
+        code: undefined,
+        retryable: true,
+      })
+    );
+  });
+});
+
+describe('collectorUrl', () => {
+  it.each([
+    ['http://splunk/services/collector'],
+    ['http://splunk/services/collector/'],
+    ['http://splunk/services/collector/event'],
+    ['http://splunk/services/collector/event/1.0'],
+    ['http://splunk/services/collector/raw'],
+  ])('points %s at the requested endpoint', url => {
+    expect(collectorUrl(url, 'ack')).toBe(
+      'http://splunk/services/collector/ack'
+    );
+  });
+
+  it('keeps query parameters', () => {
+    expect(collectorUrl('http://splunk/collector/event?foo=bar', 'raw')).toBe(
+      'http://splunk/collector/raw?foo=bar'
+    );
+  });
+});
+
+describe('toRawRequests', () => {
+  it('groups events by their metadata', () => {
+    const body = [
+      { time: 1, index: 'main', event: { foo: 1 } },
+      { time: 2, index: 'audit', event: { foo: 2 } },
+      { time: 3, index: 'main', event: 'plain text' },
+    ]
+      .map(line => JSON.stringify(line))
+      .join('\n');
+
+    expect(toRawRequests(body)).toEqual([
+      { params: { index: 'main' }, body: '{"foo":1}\nplain text' },
+      { params: { index: 'audit' }, body: '{"foo":2}' },
+    ]);
+  });
+
+  it('keeps metric events for the event endpoint', () => {
+    const metric = JSON.stringify({
+      index: 'metrics',
+      event: 'metric',
+      fields: { 'metric_name:cpu': 1 },
+    });
+    const body = [
+      metric,
+      JSON.stringify({ index: 'main', event: 'metric' }),
+      metric,
+    ].join('\n');
+
+    expect(toRawRequests(body)).toEqual([
+      { params: {}, body: `${metric}\n${metric}`, endpoint: 'event' },
+      { params: { index: 'main' }, body: 'metric' },
+    ]);
+  });
+});
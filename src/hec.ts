@@ -0,0 +1,155 @@
+import { KersplunkError } from './KersplunkError';
+import { isMetricEvent } from './metrics';
+
+// See https://docs.splunk.com/Documentation/Splunk/latest/Data/TroubleshootHTTPEventCollector#Possible_error_codes
+export const HEC_CODES = {
+  success: 0,
+  tokenDisabled: 1,
+  tokenRequired: 2,
+  invalidAuthorization: 3,
+  invalidToken: 4,
+  noData: 5,
+  invalidDataFormat: 6,
+  incorrectIndex: 7,
+  internalServerError: 8,
+  serverBusy: 9,
+  dataChannelMissing: 10,
+  invalidDataChannel: 11,
+  eventFieldRequired: 12,
+  eventFieldBlank: 13,
+  ackDisabled: 14,
+  indexedFieldsError: 15,
+  queryStringAuthorizationDisabled: 16,
+  healthy: 17,
+  unhealthyQueuesFull: 18,
+  unhealthyAckUnavailable: 19,
+  unhealthyQueuesFullAckUnavailable: 20,
+};
+
+export type HecEndpoint = 'event' | 'raw';
+
+export type HecResponse = {
+  text?: string;
+  code?: number;
+  'invalid-event-number'?: number;
+  ackId?: number;
+};
+
+const RETRYABLE_CODES = [
+  HEC_CODES.internalServerError,
+  HEC_CODES.serverBusy,
+  HEC_CODES.unhealthyQueuesFull,
+  HEC_CODES.unhealthyAckUnavailable,
+  HEC_CODES.unhealthyQueuesFullAckUnavailable,
+];
+
+const isRetryableStatus = (status: number) =>
+  status >= 500 || status === 408 || status === 429;
+
+export const parseHecResponse = (body: string): HecResponse => {
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const hecErrorFromResponse = (
+  status: number,
+  body: string
+): KersplunkError | undefined => {
+  if (status >= 200 && status < 300) {
+    return;
+  }
+  const hecResponse = parseHecResponse(body);
+  const { code, text } = hecResponse;
+
+  return new KersplunkError(
+    `Splunk HEC responded with ${status}${text ? `: ${text}` : ''}`,
+    {
+      status,
+      code,
+      invalidEventNumber: hecResponse['invalid-event-number'],
+      retryable:
+        (code !== undefined && RETRYABLE_CODES.indexOf(code) >= 0) ||
+        isRetryableStatus(status),
+    }
+  );
+};
+
+export const hecErrorFromNetworkFailure = (cause: unknown) =>
+  new KersplunkError(
+    `Unable to reach Splunk HEC: ${
+      cause instanceof Error ? cause.message : cause
+    }`,
+    { retryable: true, cause }
+  );
+
+// Points the configured collector URL at another HEC endpoint. eg:
+// https://splunk:8088/services/collector/event -> https://splunk:8088/services/collector/raw
+export const collectorUrl = (splunkUrl: string, endpoint: string) => {
+  const [path, query] = splunkUrl.split('?');
+  const base = path
+    .replace(/\/(event|raw|ack)(\/1\.0)?\/?$/, '')
+    .replace(/\/$/, '');
+  return `${base}/${endpoint}${query ? `?${query}` : ''}`;
+};
+
+const RAW_META_PARAMS = ['host', 'source', 'sourcetype', 'index'];
+
+export type RawRequest = {
+  params: Record<string, string>;
+  body: string;
+  endpoint?: 'event'; // for metric events, which the raw endpoint can not take
+};
+
+// The raw endpoint takes metadata as query parameters rather than in an
+// envelope around each event. Events are grouped by their metadata so
+// each group can be sent as a separate request. Metric events are kept in
+// their envelope and grouped into a request for the event endpoint.
+export const toRawRequests = (body: string): RawRequest[] => {
+  const requests: Record<string, RawRequest> = {};
+  const keys: string[] = [];
+  body.split('\n').forEach(line => {
+    const envelope = JSON.parse(line);
+    if (isMetricEvent(envelope)) {
+      if (requests.metrics) {
+        requests.metrics.body += `\n${line}`;
+      } else {
+        keys.push('metrics');
+        requests.metrics = { params: {}, body: line, endpoint: 'event' };
+      }
+      return;
+    }
+    const { event, ...meta } = envelope;
+    const params: Record<string, string> = {};
+    RAW_META_PARAMS.forEach(param => {
+      if (meta[param] !== undefined) {
+        params[param] = String(meta[param]);
+      }
+    });
+    const key = JSON.stringify(params);
+    const rawEvent = typeof event === 'string' ? event : JSON.stringify(event);
+    if (requests[key]) {
+      requests[key].body += `\n${rawEvent}`;
+    } else {
+      keys.push(key);
+      requests[key] = { params, body: rawEvent };
+    }
+  });
+  return keys.map(key => requests[key]);
+};
+
+export const withQueryParams = (
+  url: string,
+  params: Record<string, string>
+) => {
+  const query = Object.keys(params)
+    .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(params[key])}`)
+    .join('&');
+  if (!query) {
+    return url;
+  }
+  return `${url}${url.indexOf('?') >= 0 ? '&' : '?'}${query}`;
+};
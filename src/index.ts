@@ -1 +1,32 @@
 export * from './Logger';
+export * from './KersplunkError';
+export { ExitFlushOptions } from './lifecycle';
+export { ConsoleCaptureOptions, ConsoleMethod } from './consoleCapture';
+export { GlobalErrorKind, GlobalErrorOptions } from './globalErrors';
+export { HEC_CODES, HecEndpoint } from './hec';
+export {
+  Counter,
+  Gauge,
+  MetricDimensions,
+  MetricsConfiguration,
+  MetricValues,
+} from './metrics';
+export { DROP, LogEntry, LogEvent, LogMiddleware } from './middleware';
+export {
+  REDACTION_PATTERNS,
+  RedactionAction,
+  RedactionFunction,
+  RedactionOptions,
+  RedactionRule,
+} from './redaction';
+export { RetryPolicy } from './RetryQueue';
+export { EventCriteria, LogRoute } from './routing';
+export {
+  RateLimitRule,
+  SampleRule,
+  SamplingOptions,
+  SuppressedCounts,
+  SuppressedSummary,
+} from './sampling';
+export * from './transports';
+export * from './storage';
@@ -0,0 +1,132 @@
+import { installExitHooks } from './lifecycle';
+
+describe('installExitHooks', () => {
+  describe('browser', () => {
+    const setVisibility = (visibilityState: string) =>
+      Object.defineProperty(document, 'visibilityState', {
+        configurable: true,
+        get: () => visibilityState,
+      });
+
+    afterEach(() => setVisibility('visible'));
+
+    it('unloads when the page is hidden', () => {
+      const unload = jest.fn();
+      const uninstall = installExitHooks(
+        { unload, flush: jest.fn(), keepAlive: jest.fn() },
+        { environment: 'browser' }
+      );
+      setVisibility('hidden');
+      document.dispatchEvent(new Event('visibilitychange'));
+      uninstall();
+
+      expect(unload).toHaveBeenCalledTimes(1);
+    });
+
+    it('unloads on pagehide', () => {
+      const unload = jest.fn();
+      const uninstall = installExitHooks(
+        { unload, flush: jest.fn(), keepAlive: jest.fn() },
+        { environment: 'browser' }
+      );
+      window.dispatchEvent(new Event('pagehide'));
+      uninstall();
+
+      expect(unload).toHaveBeenCalledTimes(1);
+    });
+
+    it('removes the hooks when uninstalled', () => {
+      const unload = jest.fn();
+      installExitHooks(
+        { unload, flush: jest.fn(), keepAlive: jest.fn() },
+        { environment: 'browser' }
+      )();
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(unload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('node', () => {
+    // Lets the flush and deadline promises settle
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(() => {
+      jest.spyOn(process, 'kill').mockImplementation(() => true);
+      jest.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+    });
+
+    it('flushes and re-raises the signal', async () => {
+      const flush = jest.fn().mockResolvedValue(undefined);
+      installExitHooks(
+        { unload: jest.fn(), flush, keepAlive: jest.fn() },
+        { environment: 'node', signals: ['SIGUSR2'] }
+      );
+      process.emit('SIGUSR2' as any, 'SIGUSR2' as any);
+      await settle();
+
+      expect(flush).toHaveBeenCalled();
+      expect(process.kill).toHaveBeenCalledWith(process.pid, 'SIGUSR2');
+      expect(process.listenerCount('SIGUSR2')).toBe(0);
+    });
+
+    it('does not re-raise signals that someone else handles', async () => {
+      const otherHandler = jest.fn();
+      process.on('SIGUSR2', otherHandler);
+      installExitHooks(
+        {
+          unload: jest.fn(),
+          flush: jest.fn().mockResolvedValue(undefined),
+          keepAlive: jest.fn(),
+        },
+        { environment: 'node', signals: ['SIGUSR2'] }
+      );
+      process.emit('SIGUSR2' as any, 'SIGUSR2' as any);
+      await settle();
+      process.removeListener('SIGUSR2', otherHandler);
+
+      expect(process.kill).not.toHaveBeenCalled();
+    });
+
+    it('gives up on the flush after the deadline', async () => {
+      installExitHooks(
+        {
+          unload: jest.fn(),
+          flush: () => new Promise(() => undefined),
+          keepAlive: jest.fn(),
+        },
+        { environment: 'node', signals: ['SIGUSR2'], timeoutMs: 10 }
+      );
+      process.emit('SIGUSR2' as any, 'SIGUSR2' as any);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(process.kill).toHaveBeenCalledWith(process.pid, 'SIGUSR2');
+    });
+
+    it('stops the logger keeping node alive until uninstalled', () => {
+      const keepAlive = jest.fn();
+      const uninstall = installExitHooks(
+        { unload: jest.fn(), flush: jest.fn(), keepAlive },
+        { environment: 'node', signals: [] }
+      );
+
+      expect(keepAlive).toHaveBeenCalledWith(false);
+      uninstall();
+      expect(keepAlive).toHaveBeenLastCalledWith(true);
+    });
+
+    it('flushes before exiting', async () => {
+      const flush = jest.fn().mockResolvedValue(undefined);
+      const uninstall = installExitHooks(
+        { unload: jest.fn(), flush, keepAlive: jest.fn() },
+        { environment: 'node', signals: [] }
+      );
+      process.emit('beforeExit', 0);
+      await settle();
+      uninstall();
+
+      expect(flush).toHaveBeenCalled();
+      expect(process.exit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,118 @@
+export type ExitFlushOptions = {
+  timeoutMs?: number; // how long node waits for the final flush
+  signals?: NodeJS.Signals[];
+  environment?: 'browser' | 'node';
+};
+
+type ExitHandlers = {
+  // Must hand the buffered logs to the browser before returning
+  unload: () => void;
+  // Resolves once every pending batch was delivered or given up on
+  flush: () => Promise<void>;
+  // Whether the logger's timers (eg: retries) keep node alive. They must
+  // not while the hooks are installed, or `beforeExit` would never fire.
+  keepAlive: (keepAlive: boolean) => void;
+};
+
+export const detectEnvironment = () => {
+  if (
+    typeof window !== 'undefined' &&
+    typeof window.addEventListener === 'function'
+  ) {
+    return 'browser';
+  }
+  if (typeof process !== 'undefined' && typeof process.on === 'function') {
+    return 'node';
+  }
+};
+
+// Sets whether a timer keeps node alive. Timers in browsers always run.
+export const setKeepAlive = (
+  timer: ReturnType<typeof setTimeout>,
+  keepAlive: boolean
+) => {
+  const update = keepAlive ? timer.ref : timer.unref;
+  if (typeof update === 'function') {
+    update.call(timer);
+  }
+};
+
+// Resolves `true` when the promise settles before the deadline
+export const withDeadline = (promise: Promise<unknown>, timeoutMs: number) =>
+  new Promise<boolean>(resolve => {
+    const timer = setTimeout(() => resolve(false), timeoutMs);
+    // Do not let the deadline itself keep node alive
+    setKeepAlive(timer, false);
+    const done = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    promise.then(done, done);
+  });
+
+const installBrowserHooks = ({ unload }: ExitHandlers) => {
+  // Browsers may never fire `pagehide` (eg: mobile tab switches), so
+  // flush whenever the page is hidden too.
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      unload();
+    }
+  };
+  window.addEventListener('pagehide', unload);
+  document.addEventListener('visibilitychange', onVisibilityChange);
+
+  return () => {
+    window.removeEventListener('pagehide', unload);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  };
+};
+
+const installNodeHooks = (
+  { flush, keepAlive }: ExitHandlers,
+  { timeoutMs = 2000, signals = ['SIGINT', 'SIGTERM'] }: ExitFlushOptions
+) => {
+  const onBeforeExit = () => {
+    // Retries can keep node alive until the deadline
+    keepAlive(true);
+    withDeadline(flush(), timeoutMs).then(flushed => {
+      if (!flushed) {
+        process.exit();
+      }
+      keepAlive(false);
+    });
+  };
+  const onSignal = (signal: NodeJS.Signals) => {
+    withDeadline(flush(), timeoutMs).then(() => {
+      uninstall();
+      // Listening for a signal disables node's default handling. Re-raise
+      // it so the process still exits, unless someone else handles it.
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  };
+  const uninstall = () => {
+    process.removeListener('beforeExit', onBeforeExit);
+    signals.forEach(signal => process.removeListener(signal, onSignal));
+    keepAlive(true);
+  };
+
+  keepAlive(false);
+  process.on('beforeExit', onBeforeExit);
+  signals.forEach(signal => process.on(signal, onSignal));
+  return uninstall;
+};
+
+export const installExitHooks = (
+  handlers: ExitHandlers,
+  options: ExitFlushOptions
+): (() => void) => {
+  switch (options.environment || detectEnvironment()) {
+    case 'browser':
+      return installBrowserHooks(handlers);
+    case 'node':
+      return installNodeHooks(handlers, options);
+    default:
+      return () => undefined;
+  }
+};
@@ -0,0 +1,101 @@
+import { metricFields, MetricsAggregator } from './metrics';
+
+describe('metrics', () => {
+  describe('metricFields', () => {
+    it('prefixes each metric name', () => {
+      expect(metricFields({ cpu: 12.5, mem: 1024 }, { region: 'us' })).toEqual({
+        region: 'us',
+        'metric_name:cpu': 12.5,
+        'metric_name:mem': 1024,
+      });
+    });
+  });
+
+  describe('MetricsAggregator', () => {
+    let emit: jest.Mock;
+    let aggregator: MetricsAggregator;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      emit = jest.fn();
+      aggregator = new MetricsAggregator(emit, 1000);
+    });
+
+    afterEach(() => {
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+
+    it('sums counters until the interval passes', () => {
+      const requests = aggregator.counter('requests');
+      requests.increment();
+      requests.increment(2);
+
+      expect(emit).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1000);
+      expect(emit).toHaveBeenCalledWith({ requests: 3 }, {});
+    });
+
+    it('keeps the last value of gauges', () => {
+      const queue = aggregator.gauge('queue:length');
+      queue.set(5);
+      queue.set(3);
+      jest.advanceTimersByTime(1000);
+
+      expect(emit).toHaveBeenCalledWith({ 'queue:length': 3 }, {});
+    });
+
+    it('emits each series as one multi-metric event', () => {
+      aggregator.counter('requests', { route: '/a' }).increment();
+      aggregator.gauge('latency', { route: '/a' }).set(12);
+      aggregator.counter('requests', { route: '/b' }).increment();
+      jest.advanceTimersByTime(1000);
+
+      expect(emit.mock.calls).toEqual([
+        [{ requests: 1, latency: 12 }, { route: '/a' }],
+        [{ requests: 1 }, { route: '/b' }],
+      ]);
+    });
+
+    it('treats dimensions in any order as the same series', () => {
+      aggregator.counter('hits', { a: 1, b: 2 }).increment();
+      aggregator.counter('hits', { b: 2, a: 1 }).increment();
+      aggregator.flush();
+
+      expect(emit).toHaveBeenCalledTimes(1);
+      expect(emit).toHaveBeenCalledWith({ hits: 2 }, { a: 1, b: 2 });
+    });
+
+    it('resets after emitting', () => {
+      const requests = aggregator.counter('requests');
+      requests.increment();
+      jest.advanceTimersByTime(1000);
+      jest.advanceTimersByTime(1000);
+      requests.increment();
+      jest.advanceTimersByTime(1000);
+
+      expect(emit.mock.calls).toEqual([
+        [{ requests: 1 }, {}],
+        [{ requests: 1 }, {}],
+      ]);
+    });
+
+    it('only runs a timer while there is something to emit', () => {
+      expect(jest.getTimerCount()).toBe(0);
+      aggregator.counter('requests').increment();
+      expect(jest.getTimerCount()).toBe(1);
+      aggregator.flush();
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('ignores values once closed', () => {
+      const requests = aggregator.counter('requests');
+      requests.increment();
+      aggregator.close();
+      requests.increment();
+
+      expect(emit).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+});
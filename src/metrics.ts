@@ -0,0 +1,137 @@
+import { setKeepAlive } from './lifecycle';
+
+export type MetricDimensions = Record<string, string | number | boolean>;
+export type MetricValues = Record<string, number>;
+
+export type MetricsConfiguration = {
+  index?: string; // a metrics index, defaults to the token's default index
+  sourcetype?: string;
+  interval?: number; // ms between emitting counters and gauges, defaults to 10000
+};
+
+export type Counter = {
+  increment(by?: number): void;
+};
+
+export type Gauge = {
+  set(value: number): void;
+};
+
+type Series = {
+  dimensions: MetricDimensions;
+  values: MetricValues;
+};
+
+// Builds the `fields` of a HEC multi-metric event. eg:
+// { region: 'us-west', 'metric_name:cpu': 12.5, 'metric_name:mem': 1024 }
+export const metricFields = (
+  values: MetricValues,
+  dimensions: MetricDimensions = {}
+) =>
+  Object.keys(values).reduce<Record<string, unknown>>(
+    (fields, name) => ({ ...fields, [`metric_name:${name}`]: values[name] }),
+    { ...dimensions }
+  );
+
+// The `event` of a metric event, whose measurements are in its `fields`
+export const METRIC_EVENT = 'metric';
+
+// Whether a serialized `{...meta, event}` line (once parsed) is a metric
+// event rather than a log
+export const isMetricEvent = ({ event, fields }: any) =>
+  event === METRIC_EVENT &&
+  !!fields &&
+  typeof fields === 'object' &&
+  Object.keys(fields).some(key => key.indexOf('metric_name:') === 0);
+
+const seriesKey = (dimensions: MetricDimensions) =>
+  JSON.stringify(
+    Object.keys(dimensions)
+      .sort()
+      .map(key => [key, dimensions[key]])
+  );
+
+// Aggregates counters and gauges locally. Every series (set of dimensions)
+// that changed is emitted as a single multi-metric event once the interval
+// passes. The timer only runs while there is something to emit.
+export class MetricsAggregator {
+  private _series: Record<string, Series> = {};
+  private _timer?: ReturnType<typeof setTimeout>;
+  private _closed = false;
+  private _keepAlive = true;
+
+  constructor(
+    private _emit: (values: MetricValues, dimensions: MetricDimensions) => void,
+    private _interval: number
+  ) {}
+
+  public counter(name: string, dimensions: MetricDimensions = {}): Counter {
+    return {
+      increment: (by = 1) =>
+        this._record(dimensions, values => {
+          values[name] = (values[name] || 0) + by;
+        }),
+    };
+  }
+
+  public gauge(name: string, dimensions: MetricDimensions = {}): Gauge {
+    return {
+      set: value =>
+        this._record(dimensions, values => {
+          values[name] = value;
+        }),
+    };
+  }
+
+  // Emits everything aggregated so far
+  public flush() {
+    this._clearTimer();
+    const series = this._series;
+    this._series = {};
+    Object.keys(series).forEach(key =>
+      this._emit(series[key].values, series[key].dimensions)
+    );
+  }
+
+  // Emits everything aggregated so far and ignores any further values
+  public close() {
+    this.flush();
+    this._closed = true;
+  }
+
+  // Whether the timer keeps node alive
+  public keepAlive(keepAlive: boolean) {
+    this._keepAlive = keepAlive;
+    if (this._timer) {
+      setKeepAlive(this._timer, keepAlive);
+    }
+  }
+
+  private _clearTimer() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  private _record(
+    dimensions: MetricDimensions,
+    update: (values: MetricValues) => void
+  ) {
+    if (this._closed) {
+      return;
+    }
+    const key = seriesKey(dimensions);
+    const series = (this._series[key] = this._series[key] || {
+      dimensions,
+      values: {},
+    });
+    update(series.values);
+    if (!this._timer) {
+      this._timer = setTimeout(() => this.flush(), this._interval);
+      if (!this._keepAlive) {
+        setKeepAlive(this._timer, false);
+      }
+    }
+  }
+}
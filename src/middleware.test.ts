@@ -0,0 +1,61 @@
+import { DROP, LogEntry, runMiddleware } from './middleware';
+
+describe('runMiddleware', () => {
+  const entry: LogEntry = {
+    event: { logType: 'info', eventName: 'foo' },
+    meta: { index: 'main' },
+  };
+  const tag = (tagName: string) => (current: LogEntry) => ({
+    ...current,
+    event: { ...current.event, [tagName]: true },
+  });
+
+  it('returns the entry synchronously when every stage is sync', () => {
+    expect(runMiddleware(entry, [tag('one'), tag('two')], jest.fn())).toEqual({
+      ...entry,
+      event: { ...entry.event, one: true, two: true },
+    });
+  });
+
+  it('returns a promise once a stage is async', async () => {
+    const result = runMiddleware(
+      entry,
+      [tag('one'), async current => tag('two')(current), tag('three')],
+      jest.fn()
+    );
+
+    expect(result).toBeInstanceOf(Promise);
+    expect(await result).toEqual({
+      ...entry,
+      event: { ...entry.event, one: true, two: true, three: true },
+    });
+  });
+
+  it('stops at DROP', () => {
+    const last = jest.fn();
+
+    expect(runMiddleware(entry, [() => DROP, last], jest.fn())).toBe(DROP);
+    expect(last).not.toHaveBeenCalled();
+  });
+
+  it('skips stages that fail', async () => {
+    const onError = jest.fn();
+    const result = await runMiddleware(
+      entry,
+      [
+        () => {
+          throw new Error('sync');
+        },
+        () => Promise.reject(new Error('async')),
+        tag('one'),
+      ],
+      onError
+    );
+
+    expect(onError.mock.calls).toEqual([
+      [new Error('sync')],
+      [new Error('async')],
+    ]);
+    expect(result).toEqual({ ...entry, event: { ...entry.event, one: true } });
+  });
+});
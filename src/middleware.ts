@@ -0,0 +1,71 @@
+import { LogInterceptor, SplunkMeta } from './Logger';
+
+export type LogEvent = {
+  logType: string;
+  eventName: string;
+  [key: string]: unknown;
+};
+
+export type LogEntry = {
+  event: LogEvent;
+  meta: SplunkMeta; // the SplunkMeta sent with this event
+};
+
+// Return this from a middleware stage to discard the event
+export const DROP: unique symbol = Symbol('kersplunk.drop');
+
+export type MiddlewareResult = LogEntry | typeof DROP | void;
+
+// Returns the (possibly modified) entry, `DROP` to discard the event or
+// nothing to pass the entry along unchanged. Stages may be async.
+export type LogMiddleware = (
+  entry: LogEntry
+) => MiddlewareResult | Promise<MiddlewareResult>;
+
+const isThenable = (value: unknown): value is Promise<MiddlewareResult> =>
+  !!value && typeof (value as any).then === 'function';
+
+// The original interceptor only sees the event. Returning nothing from it
+// drops the event rather than sending an empty one.
+export const interceptorStage = (
+  interceptor: LogInterceptor
+): LogMiddleware => entry => {
+  const event = interceptor(entry.event);
+  return event ? { ...entry, event: event as LogEvent } : DROP;
+};
+
+// Runs the stages in order. The result is only a promise when one of the
+// stages is async so that synchronous pipelines add events to the buffer
+// immediately. A stage that throws is skipped after reporting the error.
+export const runMiddleware = (
+  entry: LogEntry | typeof DROP,
+  stages: LogMiddleware[],
+  onError: (error: unknown) => void
+): LogEntry | typeof DROP | Promise<LogEntry | typeof DROP> => {
+  let current = entry;
+  for (let i = 0; i < stages.length; i++) {
+    if (current === DROP) {
+      return DROP;
+    }
+    const previous: LogEntry = current;
+    let result: MiddlewareResult | Promise<MiddlewareResult>;
+    try {
+      result = stages[i](previous);
+    } catch (e) {
+      onError(e);
+      continue;
+    }
+    if (isThenable(result)) {
+      const remaining = stages.slice(i + 1);
+      return Promise.resolve(result).then(
+        resolved => runMiddleware(resolved || previous, remaining, onError),
+        e => {
+          onError(e);
+          return runMiddleware(previous, remaining, onError);
+        }
+      );
+    }
+    current = result || previous;
+  }
+  return current;
+};
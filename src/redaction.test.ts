@@ -0,0 +1,214 @@
+import { createRedactor, REDACTION_PATTERNS } from './redaction';
+import { sha256 } from './sha256';
+
+describe('createRedactor', () => {
+  describe('keys', () => {
+    it('masks keys at any depth', () => {
+      const redact = createRedactor({ rules: [{ keys: ['password'] }] });
+
+      expect(
+        redact({ password: 'a', user: { password: 'b', name: 'bob' } })
+      ).toEqual({
+        password: '[REDACTED]',
+        user: { password: '[REDACTED]', name: 'bob' },
+      });
+    });
+
+    it('matches keys case-insensitively', () => {
+      const redact = createRedactor({ rules: [{ keys: ['authorization'] }] });
+
+      expect(redact({ Authorization: 'Bearer abc' })).toEqual({
+        Authorization: '[REDACTED]',
+      });
+    });
+
+    it('matches keys with wildcards', () => {
+      const redact = createRedactor({ rules: [{ keys: ['*token*'] }] });
+
+      expect(
+        redact({ accessToken: 'a', tokenType: 'b', refresh_token: 'c', id: 1 })
+      ).toEqual({
+        accessToken: '[REDACTED]',
+        tokenType: '[REDACTED]',
+        refresh_token: '[REDACTED]',
+        id: 1,
+      });
+    });
+
+    it('matches paths from the root', () => {
+      const redact = createRedactor({
+        rules: [{ keys: ['request.headers.cookie', 'users.*.email'] }],
+      });
+
+      expect(
+        redact({
+          request: { headers: { cookie: 'a', host: 'b' } },
+          response: { headers: { cookie: 'c' } },
+          users: [{ email: 'd' }, { email: 'e' }],
+        })
+      ).toEqual({
+        request: { headers: { cookie: '[REDACTED]', host: 'b' } },
+        response: { headers: { cookie: 'c' } },
+        users: [{ email: '[REDACTED]' }, { email: '[REDACTED]' }],
+      });
+    });
+
+    it('masks whole objects', () => {
+      const redact = createRedactor({ rules: [{ keys: ['credentials'] }] });
+
+      expect(redact({ credentials: { user: 'a', pass: 'b' } })).toEqual({
+        credentials: '[REDACTED]',
+      });
+    });
+
+    it('removes keys', () => {
+      const redact = createRedactor({
+        rules: [{ keys: ['password'], action: 'remove' }],
+      });
+
+      expect(redact({ password: 'a', name: 'bob' })).toEqual({ name: 'bob' });
+    });
+
+    it('hashes values', () => {
+      const redact = createRedactor({
+        rules: [{ keys: ['userId'], action: 'hash' }],
+        hashSalt: 'salty',
+      });
+
+      expect(redact({ userId: 'abc' })).toEqual({
+        userId: sha256('saltyabc'),
+      });
+    });
+
+    it('uses a custom mask', () => {
+      const redact = createRedactor({
+        rules: [{ keys: ['password'] }],
+        mask: '***',
+      });
+
+      expect(redact({ password: 'a' })).toEqual({ password: '***' });
+    });
+  });
+
+  describe('patterns', () => {
+    it('masks matches within strings', () => {
+      const redact = createRedactor({
+        rules: [{ pattern: REDACTION_PATTERNS.email }],
+      });
+
+      expect(
+        redact({ message: 'Sent to bob@example.com and amy@example.org' })
+      ).toEqual({ message: 'Sent to [REDACTED] and [REDACTED]' });
+    });
+
+    it('matches card numbers', () => {
+      const redact = createRedactor({
+        rules: [{ pattern: REDACTION_PATTERNS.creditCard }],
+      });
+
+      expect(
+        redact(['4111 1111 1111 1111', '4111-1111-1111-1111', 'order 1234'])
+      ).toEqual(['[REDACTED]', '[REDACTED]', 'order 1234']);
+    });
+
+    it('matches JWTs', () => {
+      const redact = createRedactor({
+        rules: [{ pattern: REDACTION_PATTERNS.jwt }],
+      });
+
+      expect(
+        redact({
+          header: 'Bearer eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.abc-_123',
+        })
+      ).toEqual({ header: 'Bearer [REDACTED]' });
+    });
+
+    it('hashes matches', () => {
+      const redact = createRedactor({
+        rules: [{ pattern: REDACTION_PATTERNS.email, action: 'hash' }],
+      });
+
+      expect(redact({ to: 'to: bob@example.com' })).toEqual({
+        to: `to: ${sha256('bob@example.com')}`,
+      });
+    });
+
+    it('removes values that match', () => {
+      const redact = createRedactor({
+        rules: [{ pattern: REDACTION_PATTERNS.email, action: 'remove' }],
+      });
+
+      expect(redact({ to: 'bob@example.com', subject: 'Hi' })).toEqual({
+        subject: 'Hi',
+      });
+    });
+  });
+
+  describe('functions', () => {
+    it('replaces values', () => {
+      const redact = createRedactor({
+        rules: [
+          (value, path) =>
+            path[path.length - 1] === 'ssn' && typeof value === 'string'
+              ? `***-**-${value.slice(-4)}`
+              : value,
+        ],
+      });
+
+      expect(redact({ person: { ssn: '123-45-6789' } })).toEqual({
+        person: { ssn: '***-**-6789' },
+      });
+    });
+
+    it('removes values when undefined is returned', () => {
+      const redact = createRedactor({
+        rules: [value => (value === 'secret' ? undefined : value)],
+      });
+
+      expect(redact({ a: 'secret', b: ['secret', 'public'] })).toEqual({
+        b: ['public'],
+      });
+    });
+
+    it('masks values when a function throws', () => {
+      const onError = jest.fn();
+      const redact = createRedactor(
+        {
+          rules: [
+            (value, path) => {
+              if (path[0] === 'card') {
+                throw new Error('Bad rule');
+              }
+              return value;
+            },
+          ],
+        },
+        onError
+      );
+
+      expect(redact({ card: { number: '4111' }, id: 1 })).toEqual({
+        card: '[REDACTED]',
+        id: 1,
+      });
+      expect(onError).toHaveBeenCalledWith(new Error('Bad rule'));
+    });
+  });
+
+  it('does not modify the original object', () => {
+    const original = { password: 'a', nested: { password: 'b' } };
+    createRedactor({ rules: [{ keys: ['password'] }] })(original);
+
+    expect(original).toEqual({ password: 'a', nested: { password: 'b' } });
+  });
+
+  it('tolerates circular references', () => {
+    const circular: any = { password: 'a' };
+    circular.self = circular;
+    const redacted: any = createRedactor({ rules: [{ keys: ['password'] }] })(
+      circular
+    );
+
+    expect(redacted.password).toBe('[REDACTED]');
+    expect(redacted.self).toBe(circular);
+  });
+});
@@ -0,0 +1,180 @@
+import { sha256 } from './sha256';
+
+export type RedactionAction = 'mask' | 'hash' | 'remove';
+
+// Returns the value to log in place of `value`. Returning `undefined`
+// removes the field.
+export type RedactionFunction = (value: unknown, path: string[]) => unknown;
+
+export type RedactionRule =
+  // Key names (eg: `password`) match at any depth. Dotted paths (eg:
+  // `headers.authorization`) match from the root of the event. `*`
+  // matches any characters within a key (eg: `*token*`). Case-insensitive.
+  | { keys: string[]; action?: RedactionAction }
+  // Replaces matches within string values
+  | { pattern: RegExp; action?: RedactionAction }
+  | RedactionFunction;
+
+export type RedactionOptions = {
+  rules: RedactionRule[];
+  mask?: string; // defaults to `[REDACTED]`
+  hashSalt?: string; // prepended to values before they are hashed
+};
+
+export const REDACTION_PATTERNS = {
+  creditCard: /\b(?:\d[ -]?){12,18}\d\b/,
+  jwt: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/,
+  email: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/,
+};
+
+export type Redactor = (value: unknown) => unknown;
+
+type KeyMatcher = { path: RegExp[]; action: RedactionAction };
+type PatternMatcher = { pattern: RegExp; action: RedactionAction };
+
+const escapeRegExp = (str: string) => str.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const keyPattern = (key: string) =>
+  new RegExp(`^${escapeRegExp(key).replace(/\*/g, '.*')}$`, 'i');
+
+const globalPattern = (pattern: RegExp) =>
+  new RegExp(
+    pattern.source,
+    `g${pattern.ignoreCase ? 'i' : ''}${pattern.multiline ? 'm' : ''}`
+  );
+
+const matchesPath = ({ path: matcher }: KeyMatcher, path: string[]) => {
+  if (matcher.length === 1) {
+    return matcher[0].test(path[path.length - 1]);
+  }
+  return (
+    matcher.length === path.length &&
+    matcher.every((segment, i) => segment.test(path[i]))
+  );
+};
+
+// Only plain objects and arrays are walked. Other objects (eg: Errors and
+// Dates) are left for the serializer.
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const REMOVE = {};
+
+// Values are masked when a redaction function throws, so they are never
+// sent unredacted. The error is passed to `onError`.
+export const createRedactor = (
+  { rules, mask = '[REDACTED]', hashSalt = '' }: RedactionOptions,
+  onError: (error: unknown) => void = () => undefined
+): Redactor => {
+  const keyMatchers: KeyMatcher[] = [];
+  const patternMatchers: PatternMatcher[] = [];
+  const functions: RedactionFunction[] = [];
+  rules.forEach(rule => {
+    if (typeof rule === 'function') {
+      functions.push(rule);
+    } else if ('keys' in rule) {
+      rule.keys.forEach(key =>
+        keyMatchers.push({
+          path: key.split('.').map(keyPattern),
+          action: rule.action || 'mask',
+        })
+      );
+    } else {
+      patternMatchers.push({
+        pattern: globalPattern(rule.pattern),
+        action: rule.action || 'mask',
+      });
+    }
+  });
+
+  const hash = (value: unknown) =>
+    sha256(
+      hashSalt + (typeof value === 'string' ? value : JSON.stringify(value))
+    );
+
+  const redactString = (value: string) =>
+    patternMatchers.reduce<string | typeof REMOVE>(
+      (result, { pattern, action }) => {
+        if (typeof result !== 'string') {
+          return result;
+        }
+        pattern.lastIndex = 0;
+        if (action === 'remove') {
+          return pattern.test(result) ? REMOVE : result;
+        }
+        return result.replace(pattern, match =>
+          action === 'hash' ? hash(match) : mask
+        );
+      },
+      value
+    );
+
+  const redact = (
+    value: unknown,
+    path: string[],
+    ancestors: unknown[]
+  ): unknown => {
+    const keyMatch = path.length
+      ? keyMatchers.filter(matcher => matchesPath(matcher, path))[0]
+      : undefined;
+    if (keyMatch) {
+      return keyMatch.action === 'remove'
+        ? REMOVE
+        : keyMatch.action === 'hash'
+        ? hash(value)
+        : mask;
+    }
+    let result = value;
+    for (const fn of functions) {
+      try {
+        result = fn(result, path);
+      } catch (e) {
+        onError(e);
+        return mask;
+      }
+      if (result === undefined) {
+        return REMOVE;
+      }
+    }
+    if (typeof result === 'string') {
+      return redactString(result);
+    }
+    // Circular references are left alone
+    if (ancestors.indexOf(result) >= 0) {
+      return result;
+    }
+    if (Array.isArray(result)) {
+      const array = result;
+      return array
+        .map((item, i) =>
+          redact(item, [...path, String(i)], [...ancestors, array])
+        )
+        .filter(item => item !== REMOVE);
+    }
+    if (isPlainObject(result)) {
+      const object = result;
+      return Object.keys(object).reduce<Record<string, unknown>>((acc, key) => {
+        const redacted = redact(
+          object[key],
+          [...path, key],
+          [...ancestors, object]
+        );
+        if (redacted !== REMOVE) {
+          acc[key] = redacted;
+        }
+        return acc;
+      }, {});
+    }
+    return result;
+  };
+
+  return value => {
+    const redacted = redact(value, [], []);
+    return redacted === REMOVE ? undefined : redacted;
+  };
+};
@@ -0,0 +1,91 @@
+import { destinationKey, hasDestination, matchesCriteria } from './routing';
+import { MemoryTransport } from './transports';
+
+describe('routing', () => {
+  const event = { logType: 'info', eventName: 'audit.login', user: 'bob' };
+
+  describe('matchesCriteria', () => {
+    it('matches every event when the route has no criteria', () => {
+      expect(matchesCriteria({}, event)).toBe(true);
+    });
+
+    it('matches a log type or any of several', () => {
+      expect(matchesCriteria({ logType: 'info' }, event)).toBe(true);
+      expect(matchesCriteria({ logType: ['warn', 'info'] }, event)).toBe(true);
+      expect(matchesCriteria({ logType: 'error' }, event)).toBe(false);
+    });
+
+    it('matches an exact event name', () => {
+      expect(matchesCriteria({ eventName: 'audit.login' }, event)).toBe(true);
+      expect(matchesCriteria({ eventName: 'audit' }, event)).toBe(false);
+    });
+
+    it('matches an event name pattern', () => {
+      expect(matchesCriteria({ eventName: /^audit\./ }, event)).toBe(true);
+      expect(matchesCriteria({ eventName: /^debug\./ }, event)).toBe(false);
+    });
+
+    it('matches global patterns consistently', () => {
+      const route = { eventName: /audit/g };
+
+      expect(matchesCriteria(route, event)).toBe(true);
+      expect(matchesCriteria(route, event)).toBe(true);
+    });
+
+    it('matches with a predicate', () => {
+      const test = jest.fn(({ user }) => user === 'bob');
+
+      expect(matchesCriteria({ test }, event)).toBe(true);
+      expect(test).toHaveBeenCalledWith(event);
+      expect(matchesCriteria({ test }, { ...event, user: 'sue' })).toBe(false);
+    });
+
+    it('requires every criterion to match', () => {
+      expect(
+        matchesCriteria({ logType: 'info', eventName: /^debug\./ }, event)
+      ).toBe(false);
+      expect(
+        matchesCriteria(
+          { logType: 'info', eventName: /^audit\./, test: () => true },
+          event
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('hasDestination', () => {
+    it('is true when the route sends elsewhere', () => {
+      expect(hasDestination({ meta: { index: 'audit' } })).toBe(false);
+      expect(hasDestination({ authToken: 'AUDIT-TOKEN' })).toBe(true);
+      expect(hasDestination({ splunkUrl: 'http://audit' })).toBe(true);
+      expect(hasDestination({ transport: new MemoryTransport() })).toBe(true);
+    });
+  });
+
+  describe('destinationKey', () => {
+    const defaults = { splunkUrl: 'http://splunk', authToken: 'TOKEN' };
+
+    it('is the same for routes to the same endpoint and token', () => {
+      expect(destinationKey({ authToken: 'TOKEN' }, defaults)).toBe(
+        destinationKey({ splunkUrl: 'http://splunk' }, defaults)
+      );
+      expect(destinationKey({ authToken: 'AUDIT' }, defaults)).not.toBe(
+        destinationKey({ authToken: 'TOKEN' }, defaults)
+      );
+    });
+
+    it('is the transport when the route has one', () => {
+      const transport = new MemoryTransport();
+
+      expect(destinationKey({ transport }, defaults)).toBe(transport);
+    });
+
+    it('is never shared by routes with a token function of their own', () => {
+      const authToken = () => 'AUDIT';
+
+      expect(destinationKey({ authToken }, defaults)).not.toBe(
+        destinationKey({ authToken }, defaults)
+      );
+    });
+  });
+});
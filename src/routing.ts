@@ -0,0 +1,66 @@
+import { SplunkMeta } from './Logger';
+import { LogEvent } from './middleware';
+import { AuthToken, Transport } from './transports';
+
+// Criteria match when every one specified matches (no criteria at all
+// matches every event)
+export type EventCriteria = {
+  logType?: string | string[];
+  eventName?: string | RegExp;
+  test?: (event: LogEvent) => boolean;
+};
+
+// Events are sent by the first route that matches them
+export type LogRoute = EventCriteria & {
+  meta?: SplunkMeta; // eg: { index: 'audit' }
+  // Sends matching events to a different HEC endpoint and/or token (the
+  // other defaults to the logger's) or to a different transport. Routes
+  // with a destination have their own buffer and retry state.
+  splunkUrl?: string;
+  authToken?: AuthToken;
+  transport?: Transport;
+};
+
+const matchesLogType = (logType: EventCriteria['logType'], event: LogEvent) =>
+  logType === undefined ||
+  (Array.isArray(logType)
+    ? logType.indexOf(event.logType) >= 0
+    : logType === event.logType);
+
+const matchesEventName = (
+  eventName: EventCriteria['eventName'],
+  event: LogEvent
+) => {
+  if (eventName instanceof RegExp) {
+    // Reset so global and sticky patterns test every event from the start
+    eventName.lastIndex = 0;
+    return eventName.test(event.eventName);
+  }
+  return eventName === undefined || eventName === event.eventName;
+};
+
+export const matchesCriteria = (criteria: EventCriteria, event: LogEvent) =>
+  matchesLogType(criteria.logType, event) &&
+  matchesEventName(criteria.eventName, event) &&
+  (!criteria.test || criteria.test(event));
+
+export const hasDestination = (route: LogRoute) =>
+  !!(route.transport || route.splunkUrl || route.authToken);
+
+// Routes that send to the same transport or HEC endpoint and token share
+// a destination. Routes with a token function of their own never do.
+export const destinationKey = (
+  route: LogRoute,
+  defaults: { splunkUrl?: string; authToken?: AuthToken }
+): Transport | LogRoute | string => {
+  if (route.transport) {
+    return route.transport;
+  }
+  if (typeof route.authToken === 'function') {
+    return route;
+  }
+  return JSON.stringify([
+    route.splunkUrl || defaults.splunkUrl,
+    route.authToken || defaults.authToken,
+  ]);
+};
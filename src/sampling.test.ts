@@ -0,0 +1,240 @@
+import * as clockModule from './clock';
+import { Sampler, SUPPRESSED_EVENT_NAME } from './sampling';
+
+describe('Sampler', () => {
+  let emit: jest.Mock;
+  let time: number;
+  const event = (eventName: string, fields: object = {}) => ({
+    logType: 'debug',
+    eventName,
+    ...fields,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    emit = jest.fn();
+    time = 0;
+    jest.spyOn(clockModule, 'now').mockImplementation(() => time);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    // Resetting would leave Math.random returning undefined
+    jest.restoreAllMocks();
+  });
+
+  describe('sampling', () => {
+    it('keeps events that no rule matches', () => {
+      const sampler = new Sampler(
+        { rules: [{ logType: 'info', percent: 0 }] },
+        emit
+      );
+
+      expect(sampler.check(event('foo'))).toBeUndefined();
+    });
+
+    it('keeps a percentage of the matching events', () => {
+      jest
+        .spyOn(Math, 'random')
+        .mockReturnValueOnce(0.05)
+        .mockReturnValueOnce(0.5);
+      const sampler = new Sampler(
+        { rules: [{ eventName: /^scroll/, percent: 10 }] },
+        emit
+      );
+
+      expect(sampler.check(event('scroll:position'))).toBeUndefined();
+      expect(sampler.check(event('scroll:position'))).toBe('sampled');
+    });
+
+    it('applies the first matching rule', () => {
+      const sampler = new Sampler(
+        {
+          rules: [
+            { eventName: 'foo', percent: 100 },
+            { logType: 'debug', percent: 0 },
+          ],
+        },
+        emit
+      );
+
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(sampler.check(event('bar'))).toBe('sampled');
+    });
+
+    it('samples deterministically by key', () => {
+      const sampler = new Sampler(
+        { rules: [{ percent: 50, key: 'sessionId' }] },
+        emit
+      );
+      const sessions = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+      const kept = sessions.map(
+        sessionId => !sampler.check(event('foo', { sessionId }))
+      );
+
+      sessions.forEach((sessionId, i) =>
+        expect(!sampler.check(event('bar', { sessionId }))).toBe(kept[i])
+      );
+      expect(kept).toContain(true);
+      expect(kept).toContain(false);
+    });
+
+    it('samples by the key returned from a function', () => {
+      const key = jest.fn(({ traceId }) => traceId);
+      const sampler = new Sampler({ rules: [{ percent: 50, key }] }, emit);
+      const first = sampler.check(event('foo', { traceId: 'abc' }));
+
+      expect(sampler.check(event('bar', { traceId: 'abc' }))).toBe(first);
+      expect(key).toHaveBeenCalledWith(event('foo', { traceId: 'abc' }));
+    });
+
+    it('reports rules whose test or key throws and keeps the event', () => {
+      const onError = jest.fn();
+      const sampler = new Sampler(
+        {
+          rules: [
+            { test: (e: any) => e.foo.bar, percent: 0 },
+            { eventName: 'keyed', key: (e: any) => e.foo.bar, percent: 0 },
+          ],
+        },
+        emit,
+        onError
+      );
+
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(sampler.check(event('keyed'))).toBeUndefined();
+      expect(onError).toHaveBeenCalledTimes(3);
+      expect(onError).toHaveBeenCalledWith(expect.any(TypeError));
+    });
+  });
+
+  describe('rate limits', () => {
+    it('drops events over the limit', () => {
+      const sampler = new Sampler({ rateLimits: [{ limit: 2 }] }, emit);
+
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(sampler.check(event('foo'))).toBe('rate-limited');
+    });
+
+    it('skips limits whose test throws', () => {
+      const onError = jest.fn();
+      const sampler = new Sampler(
+        { rateLimits: [{ test: (e: any) => e.foo.bar, limit: 0 }] },
+        emit,
+        onError
+      );
+
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(onError).toHaveBeenCalledWith(expect.any(TypeError));
+    });
+
+    it('limits each event name separately', () => {
+      const sampler = new Sampler({ rateLimits: [{ limit: 1 }] }, emit);
+
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(sampler.check(event('bar'))).toBeUndefined();
+      expect(sampler.check(event('foo'))).toBe('rate-limited');
+    });
+
+    it('refills the bucket over the interval', () => {
+      const sampler = new Sampler(
+        { rateLimits: [{ limit: 2, interval: 1000 }] },
+        emit
+      );
+      sampler.check(event('foo'));
+      sampler.check(event('foo'));
+
+      time = 499;
+      expect(sampler.check(event('foo'))).toBe('rate-limited');
+      time = 500;
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(sampler.check(event('foo'))).toBe('rate-limited');
+    });
+
+    it('allows a burst above the limit', () => {
+      const sampler = new Sampler(
+        { rateLimits: [{ limit: 1, burst: 3 }] },
+        emit
+      );
+
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(sampler.check(event('foo'))).toBeUndefined();
+      expect(sampler.check(event('foo'))).toBe('rate-limited');
+    });
+
+    it('does not use up the limit with sampled out events', () => {
+      jest
+        .spyOn(Math, 'random')
+        .mockReturnValueOnce(0.9)
+        .mockReturnValueOnce(0.1);
+      const sampler = new Sampler(
+        { rules: [{ percent: 50 }], rateLimits: [{ limit: 1 }] },
+        emit
+      );
+
+      expect(sampler.check(event('foo'))).toBe('sampled');
+      expect(sampler.check(event('foo'))).toBeUndefined();
+    });
+  });
+
+  describe('summary', () => {
+    it('summarizes dropped events once the interval passes', () => {
+      const sampler = new Sampler(
+        {
+          rules: [{ eventName: 'foo', percent: 0 }],
+          rateLimits: [{ limit: 1 }],
+          summaryInterval: 1000,
+        },
+        emit
+      );
+      sampler.check(event('foo'));
+      sampler.check(event('bar'));
+      sampler.check(event('bar'));
+      sampler.check(event('bar'));
+
+      expect(emit).not.toHaveBeenCalled();
+      time = 1000;
+      jest.advanceTimersByTime(1000);
+      expect(emit).toHaveBeenCalledWith({
+        sampled: 1,
+        rateLimited: 2,
+        durationMs: 1000,
+        events: {
+          foo: { sampled: 1, rateLimited: 0 },
+          bar: { sampled: 0, rateLimited: 2 },
+        },
+      });
+    });
+
+    it('does not summarize when nothing was dropped', () => {
+      const sampler = new Sampler({ rateLimits: [{ limit: 1 }] }, emit);
+      sampler.check(event('foo'));
+      jest.advanceTimersByTime(60000);
+      sampler.flush();
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('never drops the summary itself', () => {
+      const sampler = new Sampler({ rules: [{ percent: 0 }] }, emit);
+
+      expect(sampler.check(event(SUPPRESSED_EVENT_NAME))).toBeUndefined();
+    });
+
+    it('summarizes when closed and stops counting', () => {
+      const sampler = new Sampler({ rules: [{ percent: 0 }] }, emit);
+      sampler.check(event('foo'));
+      sampler.close();
+      sampler.check(event('foo'));
+      jest.advanceTimersByTime(60000);
+
+      expect(emit).toHaveBeenCalledTimes(1);
+      expect(emit).toHaveBeenCalledWith(
+        expect.objectContaining({ sampled: 1 })
+      );
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { now } from './clock';
+import { setKeepAlive } from './lifecycle';
+import { LogEvent } from './middleware';
+import { EventCriteria, matchesCriteria } from './routing';
+import { sha256 } from './sha256';
+
+// Keeps `percent` of the matching events. With a `key`, events sharing the
+// same key value (eg: a session or trace ID) are all kept or all dropped.
+export type SampleRule = EventCriteria & {
+  percent: number;
+  key?: string | ((event: LogEvent) => unknown); // an event field, or a function
+};
+
+// A token bucket for each event name. Up to `burst` (defaults to `limit`)
+// events may be logged at once, refilling at `limit` per `interval`.
+export type RateLimitRule = EventCriteria & {
+  limit: number;
+  interval?: number; // ms, defaults to 1000
+  burst?: number;
+};
+
+export type SamplingOptions = {
+  rules?: SampleRule[]; // the first matching rule applies
+  rateLimits?: RateLimitRule[]; // the first matching limit applies
+  summaryInterval?: number; // ms between summaries of dropped events, defaults to 60000
+  summaryLogType?: string; // defaults to `info`, or the first log type
+};
+
+export type SuppressedReason = 'sampled' | 'rate-limited';
+
+export type SuppressedCounts = {
+  sampled: number;
+  rateLimited: number;
+};
+
+// Logged every `summaryInterval` while events are being dropped
+export type SuppressedSummary = SuppressedCounts & {
+  durationMs: number; // since the first of these events was dropped
+  events: Record<string, SuppressedCounts>; // by event name
+};
+
+// The summary is logged with this event name. It is never sampled or
+// rate limited itself.
+export const SUPPRESSED_EVENT_NAME = 'kersplunk.suppressed';
+
+type Bucket = {
+  tokens: number;
+  updated: number;
+};
+
+// A stable fraction in [0, 1) for the key
+const keyFraction = (key: unknown) =>
+  parseInt(sha256(String(key)).slice(0, 8), 16) / 0x100000000;
+
+const sampleKey = (rule: SampleRule, event: LogEvent) =>
+  typeof rule.key === 'function'
+    ? rule.key(event)
+    : rule.key && event[rule.key];
+
+// Decides which events are dropped by the sampling rules and rate limits.
+// Dropped events are counted and summarized once the interval passes. The
+// timer only runs while there is something to summarize. A rule whose
+// `test` or `key` throws is passed to `onError` and treated as not matching.
+export class Sampler {
+  private _buckets: Record<string, Bucket> = {};
+  private _suppressed: Record<string, SuppressedCounts> = {};
+  private _timer?: ReturnType<typeof setTimeout>;
+  private _since = 0;
+  private _closed = false;
+  private _keepAlive = true;
+
+  constructor(
+    private _options: SamplingOptions,
+    private _emit: (summary: SuppressedSummary) => void,
+    private _onError: (error: unknown) => void = () => undefined
+  ) {}
+
+  // Returns the reason the event should be dropped, if it should
+  public check(event: LogEvent): SuppressedReason | undefined {
+    if (event.eventName === SUPPRESSED_EVENT_NAME) {
+      return;
+    }
+    // Sampled out events do not use up the rate limit
+    if (!this._sample(event)) {
+      this._count(event.eventName, 'sampled');
+      return 'sampled';
+    }
+    if (!this._takeToken(event)) {
+      this._count(event.eventName, 'rate-limited');
+      return 'rate-limited';
+    }
+  }
+
+  // Logs the summary of everything dropped so far
+  public flush() {
+    this._clearTimer();
+    const names = Object.keys(this._suppressed);
+    if (!names.length) {
+      return;
+    }
+    const events = this._suppressed;
+    this._suppressed = {};
+    this._emit(
+      names.reduce<SuppressedSummary>(
+        (summary, name) => ({
+          ...summary,
+          sampled: summary.sampled + events[name].sampled,
+          rateLimited: summary.rateLimited + events[name].rateLimited,
+        }),
+        {
+          sampled: 0,
+          rateLimited: 0,
+          durationMs: Math.round(now() - this._since),
+          events,
+        }
+      )
+    );
+  }
+
+  // Logs the summary and stops counting
+  public close() {
+    this.flush();
+    this._closed = true;
+  }
+
+  // Whether the timer keeps node alive
+  public keepAlive(keepAlive: boolean) {
+    this._keepAlive = keepAlive;
+    if (this._timer) {
+      setKeepAlive(this._timer, keepAlive);
+    }
+  }
+
+  private _sample(event: LogEvent) {
+    const rule = (this._options.rules || []).filter(candidate =>
+      this._matches(candidate, event)
+    )[0];
+    if (!rule) {
+      return true;
+    }
+    let key: unknown;
+    try {
+      key = sampleKey(rule, event);
+    } catch (e) {
+      this._onError(e);
+      return true;
+    }
+    const fraction =
+      key === undefined || key === null ? Math.random() : keyFraction(key);
+    return fraction * 100 < rule.percent;
+  }
+
+  private _takeToken(event: LogEvent) {
+    const rateLimits = this._options.rateLimits || [];
+    let index = 0;
+    while (index < rateLimits.length) {
+      if (this._matches(rateLimits[index], event)) {
+        break;
+      }
+      index++;
+    }
+    if (index === rateLimits.length) {
+      return true;
+    }
+    const { limit, interval = 1000, burst = limit } = rateLimits[index];
+    // Each rule keeps a bucket for each event name it matches
+    const bucketKey = `${index}:${event.eventName}`;
+    const time = now();
+    const bucket = this._buckets[bucketKey] || { tokens: burst, updated: time };
+    bucket.tokens = Math.min(
+      burst,
+      bucket.tokens + ((time - bucket.updated) * limit) / interval
+    );
+    bucket.updated = time;
+    this._buckets[bucketKey] = bucket;
+    if (bucket.tokens < 1) {
+      return false;
+    }
+    bucket.tokens--;
+    return true;
+  }
+
+  private _matches(criteria: EventCriteria, event: LogEvent) {
+    try {
+      return matchesCriteria(criteria, event);
+    } catch (e) {
+      this._onError(e);
+      return false;
+    }
+  }
+
+  private _count(eventName: string, reason: SuppressedReason) {
+    if (this._closed) {
+      return;
+    }
+    const counts = this._suppressed[eventName] || {
+      sampled: 0,
+      rateLimited: 0,
+    };
+    this._suppressed[eventName] = counts;
+    if (reason === 'sampled') {
+      counts.sampled++;
+    } else {
+      counts.rateLimited++;
+    }
+    if (!this._timer) {
+      this._since = now();
+      this._timer = setTimeout(
+        () => this.flush(),
+        this._options.summaryInterval || 60000
+      );
+      if (!this._keepAlive) {
+        setKeepAlive(this._timer, false);
+      }
+    }
+  }
+
+  private _clearTimer() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+}
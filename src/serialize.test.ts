@@ -0,0 +1,152 @@
+import { SerializeOptions, toSerializable } from './serialize';
+
+describe('toSerializable', () => {
+  const options: SerializeOptions = {
+    errorFormatter: err => ({ name: err.name, message: err.message }),
+    maxDepth: 10,
+    maxArrayLength: 100,
+    maxStringLength: 1000,
+  };
+  const serialize = (value: unknown, overrides?: Partial<SerializeOptions>) =>
+    toSerializable(value, { ...options, ...overrides });
+
+  it('leaves JSON values alone', () => {
+    const value = { a: 1, b: 'two', c: [true, null], d: { e: 5 } };
+
+    expect(serialize(value)).toEqual(value);
+  });
+
+  it('drops undefined values, functions and symbols like JSON', () => {
+    expect(
+      serialize({ a: undefined, b: () => 1, c: Symbol('c'), d: [undefined] })
+    ).toEqual({ d: [null] });
+  });
+
+  it('replaces circular references', () => {
+    const parent: any = { name: 'parent', children: [] };
+    parent.children.push({ name: 'child', parent });
+
+    expect(serialize(parent)).toEqual({
+      name: 'parent',
+      children: [{ name: 'child', parent: '[Circular]' }],
+    });
+  });
+
+  it('keeps repeated references that are not circular', () => {
+    const shared = { id: 1 };
+
+    expect(serialize({ a: shared, b: shared })).toEqual({
+      a: { id: 1 },
+      b: { id: 1 },
+    });
+  });
+
+  it('converts BigInts to strings', () => {
+    expect(serialize({ big: BigInt('9007199254740993') })).toEqual({
+      big: '9007199254740993',
+    });
+  });
+
+  it('converts Maps and Sets', () => {
+    expect(
+      serialize({
+        map: new Map<unknown, unknown>([
+          ['a', 1],
+          [2, new Set(['b'])],
+        ]),
+      })
+    ).toEqual({ map: { a: 1, 2: ['b'] } });
+  });
+
+  it('converts Dates', () => {
+    expect(
+      serialize({ valid: new Date(0), invalid: new Date('nope') })
+    ).toEqual({ valid: '1970-01-01T00:00:00.000Z', invalid: null });
+  });
+
+  it('converts typed arrays', () => {
+    expect(serialize({ bytes: new Uint8Array([1, 2, 3]) })).toEqual({
+      bytes: [1, 2, 3],
+    });
+  });
+
+  it('uses toJSON', () => {
+    expect(
+      serialize({ custom: { toJSON: () => ({ converted: true }) } })
+    ).toEqual({ custom: { converted: true } });
+  });
+
+  it('formats nested errors and their causes', () => {
+    const cause = new Error('Inner');
+    const error = Object.assign(new Error('Outer'), { cause });
+
+    expect(serialize({ error })).toEqual({
+      error: {
+        name: 'Error',
+        message: 'Outer',
+        cause: { name: 'Error', message: 'Inner' },
+      },
+    });
+  });
+
+  it('stops at circular causes', () => {
+    const error: any = new Error('Loop');
+    error.cause = error;
+
+    expect(serialize(error)).toEqual({
+      name: 'Error',
+      message: 'Loop',
+      cause: '[Circular]',
+    });
+  });
+
+  it('caps the depth', () => {
+    expect(
+      serialize({ a: { b: { c: [1] } }, d: [[1]] }, { maxDepth: 2 })
+    ).toEqual({ a: { b: '[Object]' }, d: ['[Array]'] });
+  });
+
+  it('caps array length', () => {
+    expect(serialize([1, 2, 3, 4], { maxArrayLength: 2 })).toEqual([
+      1,
+      2,
+      '...[2 more items]',
+    ]);
+  });
+
+  it('caps string length', () => {
+    expect(serialize('abcdef', { maxStringLength: 3 })).toBe(
+      'abc...[truncated]'
+    );
+  });
+
+  it('never throws', () => {
+    const throwingGetter = Object.defineProperty({}, 'boom', {
+      enumerable: true,
+      get: () => {
+        throw new Error('Boom!');
+      },
+    });
+    const throwingToJSON = {
+      toJSON: () => {
+        throw new Error('Boom!');
+      },
+    };
+    const throwingProxy = new Proxy(
+      {},
+      {
+        ownKeys: () => {
+          throw new Error('Boom!');
+        },
+      }
+    );
+
+    expect(
+      serialize({ throwingGetter, throwingToJSON, throwingProxy })
+    ).toEqual({
+      throwingGetter: { boom: '[Unreadable]' },
+      throwingToJSON: '[Unserializable]',
+      throwingProxy: '[Unserializable]',
+    });
+  });
+});
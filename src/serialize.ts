@@ -0,0 +1,167 @@
+export type SerializeOptions = {
+  errorFormatter: (err: Error) => object;
+  maxDepth: number;
+  maxArrayLength: number;
+  maxStringLength: number;
+};
+
+const TRUNCATED_SUFFIX = '...[truncated]';
+
+const truncateString = (str: string, maxLength: number) =>
+  str.length > maxLength
+    ? `${str.slice(0, maxLength)}${TRUNCATED_SUFFIX}`
+    : str;
+
+// Reads a property without letting a throwing getter escape
+const read = (obj: any, key: string | number) => {
+  try {
+    return obj[key];
+  } catch (e) {
+    return '[Unreadable]';
+  }
+};
+
+// Formats the error with the `errorFormatter`, falling back to its name
+// and message if the formatter throws. The `cause` is kept when the
+// formatter does not include it.
+export const formatError = (
+  err: Error,
+  errorFormatter: (err: Error) => object
+) => {
+  let formatted: Record<string, unknown>;
+  try {
+    formatted = { ...errorFormatter(err) };
+  } catch (e) {
+    formatted = { name: read(err, 'name'), message: read(err, 'message') };
+  }
+  const cause = read(err, 'cause');
+  if (cause !== undefined && !('cause' in formatted)) {
+    formatted.cause = cause;
+  }
+  return formatted;
+};
+
+const isTypedArray = (value: object): value is ArrayLike<unknown> =>
+  typeof ArrayBuffer !== 'undefined' &&
+  ArrayBuffer.isView(value) &&
+  !(value instanceof DataView);
+
+// Converts any value into one that `JSON.stringify` can always handle.
+// Circular references become `[Circular]`, BigInts become strings, Maps
+// become objects, Sets and typed arrays become arrays and Errors are
+// passed through the `errorFormatter` (following their `cause`). Deep
+// objects, long arrays and long strings are capped.
+export const toSerializable = (
+  value: unknown,
+  options: SerializeOptions
+): unknown => {
+  const { errorFormatter, maxDepth, maxArrayLength, maxStringLength } = options;
+
+  const convertArray = (
+    items: ArrayLike<unknown>,
+    depth: number,
+    ancestors: object[]
+  ) => {
+    const converted: unknown[] = [];
+    const length = Math.min(items.length, maxArrayLength);
+    for (let i = 0; i < length; i++) {
+      const item = convert(read(items, i), depth + 1, ancestors);
+      converted.push(item === undefined ? null : item);
+    }
+    if (items.length > maxArrayLength) {
+      converted.push(`...[${items.length - maxArrayLength} more items]`);
+    }
+    return converted;
+  };
+
+  const convertEntries = (
+    entries: Array<[string, unknown]>,
+    depth: number,
+    ancestors: object[]
+  ) =>
+    entries.reduce<Record<string, unknown>>((acc, [key, entry]) => {
+      const converted = convert(entry, depth + 1, ancestors);
+      if (converted !== undefined) {
+        acc[key] = converted;
+      }
+      return acc;
+    }, {});
+
+  const convert = (
+    current: unknown,
+    depth: number,
+    ancestors: object[]
+  ): unknown => {
+    switch (typeof current) {
+      case 'string':
+        return truncateString(current, maxStringLength);
+      case 'number':
+      case 'boolean':
+        return current;
+      case 'bigint':
+        return current.toString();
+      case 'undefined':
+      case 'function':
+      case 'symbol':
+        return undefined;
+    }
+    if (current === null) {
+      return null;
+    }
+    const obj = current as object;
+    if (ancestors.indexOf(obj) >= 0) {
+      return '[Circular]';
+    }
+    if (obj instanceof Date) {
+      return isNaN(obj.getTime()) ? null : obj.toISOString();
+    }
+    if (depth >= maxDepth) {
+      return Array.isArray(obj) ? '[Array]' : '[Object]';
+    }
+    const nested = [...ancestors, obj];
+    if (obj instanceof Error) {
+      return convert(formatError(obj, errorFormatter), depth, nested);
+    }
+    const toJSON = read(obj, 'toJSON');
+    if (typeof toJSON === 'function') {
+      let json: unknown;
+      try {
+        json = toJSON.call(obj);
+      } catch (e) {
+        return '[Unserializable]';
+      }
+      return json === obj ? '[Circular]' : convert(json, depth, nested);
+    }
+    if (typeof Map !== 'undefined' && obj instanceof Map) {
+      const entries: Array<[string, unknown]> = [];
+      obj.forEach((entry, key) => entries.push([String(key), entry]));
+      return convertEntries(entries, depth, nested);
+    }
+    if (typeof Set !== 'undefined' && obj instanceof Set) {
+      const items: unknown[] = [];
+      obj.forEach(item => items.push(item));
+      return convertArray(items, depth, nested);
+    }
+    if (Array.isArray(obj) || isTypedArray(obj)) {
+      return convertArray(obj, depth, nested);
+    }
+    let keys: string[];
+    try {
+      keys = Object.keys(obj);
+    } catch (e) {
+      return '[Unserializable]';
+    }
+    return convertEntries(
+      keys.map((key): [string, unknown] => [key, read(obj, key)]),
+      depth,
+      nested
+    );
+  };
+
+  try {
+    return convert(value, 0, []);
+  } catch (e) {
+    // eg: a Proxy that throws from its traps
+    return '[Unserializable]';
+  }
+};
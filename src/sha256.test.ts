@@ -0,0 +1,30 @@
+import { createHash } from 'crypto';
+import { sha256 } from './sha256';
+
+describe('sha256', () => {
+  it('hashes an empty string', () => {
+    expect(sha256('')).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  });
+
+  it('hashes ascii', () => {
+    expect(sha256('abc')).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('hashes messages longer than one block', () => {
+    expect(
+      sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')
+    ).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('hashes the UTF-8 encoding of the string', () => {
+    const message = 'héllo wörld 🎉';
+
+    expect(sha256(message)).toBe(
+      createHash('sha256').update(message, 'utf8').digest('hex')
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { promises as fs } from 'fs';
+import { StorageAdapter } from './StorageAdapter';
+
+export class FileStorageAdapter implements StorageAdapter {
+  constructor(private _filePath: string) {}
+
+  public async read() {
+    try {
+      return await fs.readFile(this._filePath, 'utf8');
+    } catch (e) {
+      if (e && e.code === 'ENOENT') {
+        return;
+      }
+      throw e;
+    }
+  }
+
+  public async write(data: string) {
+    // Write to a temporary file first so a crash mid-write can not
+    // leave a truncated file behind
+    const tempPath = `${this._filePath}.tmp`;
+    await fs.writeFile(tempPath, data, 'utf8');
+    await fs.rename(tempPath, this._filePath);
+  }
+}
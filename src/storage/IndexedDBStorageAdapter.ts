@@ -0,0 +1,37 @@
+import { StorageAdapter } from './StorageAdapter';
+
+const STORE_NAME = 'queue';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private _db?: Promise<IDBDatabase>;
+
+  constructor(private _databaseName = 'kersplunk', private _key = 'state') {}
+
+  public async read() {
+    const store = await this._store('readonly');
+    const data = await promisify<string | undefined>(store.get(this._key));
+    return data;
+  }
+
+  public async write(data: string) {
+    const store = await this._store('readwrite');
+    await promisify(store.put(data, this._key));
+  }
+
+  private async _store(mode: IDBTransactionMode) {
+    if (!this._db) {
+      const request = indexedDB.open(this._databaseName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(STORE_NAME);
+      this._db = promisify(request);
+    }
+    const db = await this._db;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
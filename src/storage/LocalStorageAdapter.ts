@@ -0,0 +1,14 @@
+import { StorageAdapter } from './StorageAdapter';
+
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(private _key = 'kersplunk') {}
+
+  public async read() {
+    const data = localStorage.getItem(this._key);
+    return data === null ? undefined : data;
+  }
+
+  public async write(data: string) {
+    localStorage.setItem(this._key, data);
+  }
+}
@@ -0,0 +1,13 @@
+import { StorageAdapter } from './StorageAdapter';
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  constructor(public data?: string) {}
+
+  public async read() {
+    return this.data;
+  }
+
+  public async write(data: string) {
+    this.data = data;
+  }
+}
@@ -0,0 +1,7 @@
+// Persists the logger's unsent logs between page loads or process restarts.
+// The logger reads the stored data once when it is created and writes the
+// latest snapshot whenever its buffer or pending batches change.
+export type StorageAdapter = {
+  read(): Promise<string | undefined>;
+  write(data: string): Promise<void>;
+};
@@ -0,0 +1,5 @@
+export * from './StorageAdapter';
+export * from './MemoryStorageAdapter';
+export * from './LocalStorageAdapter';
+export * from './IndexedDBStorageAdapter';
+export * from './FileStorageAdapter';
@@ -0,0 +1,57 @@
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileStorageAdapter,
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+} from '.';
+
+describe('MemoryStorageAdapter', () => {
+  it('reads back what was written', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.write('foo');
+
+    expect(await storage.read()).toBe('foo');
+  });
+
+  it('reads undefined when nothing was written', async () => {
+    expect(await new MemoryStorageAdapter().read()).toBeUndefined();
+  });
+});
+
+describe('LocalStorageAdapter', () => {
+  afterEach(() => localStorage.clear());
+
+  it('writes to localStorage under the given key', async () => {
+    const storage = new LocalStorageAdapter('my-key');
+    await storage.write('foo');
+
+    expect(localStorage.getItem('my-key')).toBe('foo');
+    expect(await storage.read()).toBe('foo');
+  });
+
+  it('reads undefined when nothing was written', async () => {
+    expect(await new LocalStorageAdapter().read()).toBeUndefined();
+  });
+});
+
+describe('FileStorageAdapter', () => {
+  let filePath: string;
+
+  beforeEach(() => {
+    filePath = join(mkdtempSync(join(tmpdir(), 'kersplunk-')), 'queue.json');
+  });
+
+  it('writes to the file', async () => {
+    const storage = new FileStorageAdapter(filePath);
+    await storage.write('foo');
+
+    expect(readFileSync(filePath, 'utf8')).toBe('foo');
+    expect(await storage.read()).toBe('foo');
+  });
+
+  it('reads undefined when the file does not exist', async () => {
+    expect(await new FileStorageAdapter(filePath).read()).toBeUndefined();
+  });
+});
@@ -0,0 +1,385 @@
+import {
+  createServer,
+  IncomingHttpHeaders,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'http';
+import { AddressInfo, Socket } from 'net';
+import { gunzipSync } from 'zlib';
+import { HEC_CODES, HecResponse } from '../hec';
+
+export type HecTestServerOptions = {
+  token?: string; // the only token accepted, defaults to `TEST-TOKEN`
+  useAck?: boolean; // responds with ackIds and serves the ack endpoint
+};
+
+// Injected in place of the next response(s) from the event or raw endpoint
+export type HecFailure =
+  | { status: number; code?: number; text?: string }
+  | { disconnect: true }; // drops the connection without responding
+
+export type ReceivedRequest = {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: IncomingHttpHeaders;
+  body: string; // decompressed
+};
+
+export type ReceivedEvent = {
+  endpoint: 'event' | 'raw';
+  event: unknown; // raw events are parsed when they are JSON
+  meta: Record<string, unknown>; // time, host, index, fields, etc
+  channel?: string;
+};
+
+type Waiter = {
+  count: number;
+  resolve: (events: ReceivedEvent[]) => void;
+};
+
+const COLLECTOR_PATH = /^\/services\/collector(\/(event|raw|ack|health))?(\/1\.0)?\/?$/;
+const RAW_META_PARAMS = ['host', 'source', 'sourcetype', 'index'];
+
+const hecError = (status: number, code: number, text: string) => ({
+  status,
+  body: { text, code },
+});
+
+const parseQuery = (search: string) =>
+  search
+    .replace(/^\?/, '')
+    .split('&')
+    .filter(Boolean)
+    .reduce<Record<string, string>>((query, pair) => {
+      const [key, value = ''] = pair.split('=').map(decodeURIComponent);
+      query[key] = value;
+      return query;
+    }, {});
+
+const parseJson = (text: string) => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// A stand-in for Splunk's HTTP Event Collector to run integration tests
+// against. It implements the event, raw, ack and health endpoints, records
+// everything it receives and can be told to fail.
+export class HecTestServer {
+  public requests: ReceivedRequest[] = [];
+  public events: ReceivedEvent[] = [];
+  public healthy = true; // unhealthy servers respond with "Server is busy"
+  public acknowledge = true; // whether ack requests report batches as indexed
+  private _server?: Server;
+  private _sockets: Socket[] = [];
+  private _failures: HecFailure[] = [];
+  private _nextAckId: Record<string, number> = {};
+  private _waiters: Waiter[] = [];
+
+  constructor(private _options: HecTestServerOptions = {}) {}
+
+  public get token() {
+    return this._options.token || 'TEST-TOKEN';
+  }
+
+  // The event endpoint, for use as a logger's `splunkUrl`
+  public get url() {
+    if (!this._server) {
+      throw new Error('The HEC test server has not been started');
+    }
+    const { port } = this._server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/services/collector/event`;
+  }
+
+  // Listens on a random port unless one is given. Resolves with the `url`.
+  public start(port = 0): Promise<string> {
+    const server = createServer((req, res) => this._handle(req, res));
+    server.on('connection', socket => {
+      this._sockets = [...this._sockets, socket];
+      socket.on('close', () => {
+        this._sockets = this._sockets.filter(open => open !== socket);
+      });
+    });
+    this._server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve(this.url));
+    });
+  }
+
+  public stop(): Promise<void> {
+    const server = this._server;
+    this._server = undefined;
+    if (!server) {
+      return Promise.resolve();
+    }
+    this._sockets.forEach(socket => socket.destroy());
+    return new Promise(resolve => server.close(() => resolve()));
+  }
+
+  // Fails the next `times` requests to the event or raw endpoints
+  public failNext(failure: HecFailure, times = 1) {
+    for (let i = 0; i < times; i++) {
+      this._failures = [...this._failures, failure];
+    }
+  }
+
+  public clear() {
+    this.requests = [];
+    this.events = [];
+    this._failures = [];
+  }
+
+  // Resolves once at least `count` events have been received
+  public waitForEvents(count: number, timeoutMs = 5000) {
+    if (this.events.length >= count) {
+      return Promise.resolve(this.events);
+    }
+    return new Promise<ReceivedEvent[]>((resolve, reject) => {
+      const waiter: Waiter = {
+        count,
+        resolve: events => {
+          clearTimeout(timer);
+          resolve(events);
+        },
+      };
+      const timer = setTimeout(() => {
+        this._waiters = this._waiters.filter(waiting => waiting !== waiter);
+        reject(
+          new Error(
+            `Expected ${count} events within ${timeoutMs}ms, received ${this.events.length}`
+          )
+        );
+      }, timeoutMs);
+      this._waiters = [...this._waiters, waiter];
+    });
+  }
+
+  private _handle(req: IncomingMessage, res: ServerResponse) {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const [path, search = ''] = (req.url || '').split('?');
+      let body: string;
+      try {
+        const raw = Buffer.concat(chunks);
+        body = (req.headers['content-encoding'] === 'gzip'
+          ? gunzipSync(raw)
+          : raw
+        ).toString('utf8');
+      } catch (e) {
+        return this._respond(
+          res,
+          hecError(400, HEC_CODES.invalidDataFormat, 'Invalid data format')
+        );
+      }
+      const request: ReceivedRequest = {
+        method: req.method || 'GET',
+        path,
+        query: parseQuery(search),
+        headers: req.headers,
+        body,
+      };
+      this.requests = [...this.requests, request];
+      const response = this._route(request);
+      if (response) {
+        this._respond(res, response);
+      } else {
+        req.socket.destroy();
+      }
+    });
+  }
+
+  // Returns nothing when the connection should be dropped
+  private _route(request: ReceivedRequest) {
+    if (request.method === 'OPTIONS') {
+      return { status: 204 };
+    }
+    const match = COLLECTOR_PATH.exec(request.path);
+    if (!match) {
+      return { status: 404, body: { text: 'Not Found', code: 404 } };
+    }
+    const endpoint = match[2] || 'event';
+    if (endpoint === 'health') {
+      return this.healthy
+        ? hecError(200, HEC_CODES.healthy, 'HEC is healthy')
+        : hecError(
+            503,
+            HEC_CODES.unhealthyQueuesFull,
+            'HEC is unhealthy, queues are full'
+          );
+    }
+    if (request.method !== 'POST') {
+      return { status: 405, body: { text: 'Method Not Allowed', code: 405 } };
+    }
+    const authError = this._authenticate(request);
+    if (authError) {
+      return authError;
+    }
+    if (endpoint === 'ack') {
+      return this._ack(request);
+    }
+    const [failure, ...failures] = this._failures;
+    if (failure) {
+      this._failures = failures;
+      if ('disconnect' in failure) {
+        return;
+      }
+      return {
+        status: failure.status,
+        body: { text: failure.text, code: failure.code },
+      };
+    }
+    if (!this.healthy) {
+      return hecError(503, HEC_CODES.serverBusy, 'Server is busy');
+    }
+    return this._collect(endpoint as 'event' | 'raw', request);
+  }
+
+  private _authenticate({ headers, query }: ReceivedRequest) {
+    const authorization = headers.authorization;
+    const token = authorization
+      ? authorization.replace(/^Splunk\s+/, '')
+      : query.token;
+    if (!token) {
+      return hecError(401, HEC_CODES.tokenRequired, 'Token is required');
+    }
+    if (token !== this.token) {
+      return hecError(403, HEC_CODES.invalidToken, 'Invalid token');
+    }
+  }
+
+  private _channel({ headers, query }: ReceivedRequest) {
+    const header = headers['x-splunk-request-channel'];
+    return (Array.isArray(header) ? header[0] : header) || query.channel;
+  }
+
+  private _collect(endpoint: 'event' | 'raw', request: ReceivedRequest) {
+    const channel = this._channel(request);
+    if (this._options.useAck && !channel) {
+      return hecError(
+        400,
+        HEC_CODES.dataChannelMissing,
+        'Data channel is missing'
+      );
+    }
+    const lines = request.body.split('\n').filter(line => line.trim());
+    if (!lines.length) {
+      return hecError(400, HEC_CODES.noData, 'No data');
+    }
+    const received: ReceivedEvent[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      if (endpoint === 'raw') {
+        const json = parseJson(lines[i]);
+        received.push({
+          endpoint,
+          event: json ? json.value : lines[i],
+          meta: RAW_META_PARAMS.reduce<Record<string, unknown>>(
+            (params, param) =>
+              request.query[param] === undefined
+                ? params
+                : { ...params, [param]: request.query[param] },
+            {}
+          ),
+          channel,
+        });
+        continue;
+      }
+      const parsed = parseJson(lines[i]);
+      if (!parsed || !parsed.value || typeof parsed.value !== 'object') {
+        return hecError(
+          400,
+          HEC_CODES.invalidDataFormat,
+          'Invalid data format'
+        );
+      }
+      const { event, ...meta } = parsed.value;
+      if (event === undefined) {
+        return {
+          status: 400,
+          body: {
+            text: 'Event field is required',
+            code: HEC_CODES.eventFieldRequired,
+            'invalid-event-number': i,
+          },
+        };
+      }
+      if (event === '') {
+        return {
+          status: 400,
+          body: {
+            text: 'Event field cannot be blank',
+            code: HEC_CODES.eventFieldBlank,
+            'invalid-event-number': i,
+          },
+        };
+      }
+      received.push({ endpoint, event, meta, channel });
+    }
+    this._receive(received);
+    const body: HecResponse = { text: 'Success', code: HEC_CODES.success };
+    if (this._options.useAck && channel) {
+      const ackId = this._nextAckId[channel] || 0;
+      this._nextAckId[channel] = ackId + 1;
+      body.ackId = ackId;
+    }
+    return { status: 200, body };
+  }
+
+  private _ack(request: ReceivedRequest) {
+    if (!this._options.useAck) {
+      return hecError(400, HEC_CODES.ackDisabled, 'ACK is disabled');
+    }
+    if (!this._channel(request)) {
+      return hecError(
+        400,
+        HEC_CODES.dataChannelMissing,
+        'Data channel is missing'
+      );
+    }
+    const parsed = parseJson(request.body);
+    const ackIds: unknown = parsed && parsed.value && parsed.value.acks;
+    if (!Array.isArray(ackIds)) {
+      return hecError(400, HEC_CODES.invalidDataFormat, 'Invalid data format');
+    }
+    return {
+      status: 200,
+      body: {
+        acks: ackIds.reduce<Record<string, boolean>>(
+          (acks, ackId) => ({ ...acks, [ackId]: this.acknowledge }),
+          {}
+        ),
+      },
+    };
+  }
+
+  private _receive(received: ReceivedEvent[]) {
+    this.events = [...this.events, ...received];
+    this._waiters = this._waiters.filter(waiter => {
+      if (this.events.length >= waiter.count) {
+        waiter.resolve(this.events);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  // Allows requests from browsers (and jsdom) on other origins
+  private _respond(
+    res: ServerResponse,
+    { status, body }: { status: number; body?: object }
+  ) {
+    res.writeHead(status, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers':
+        'Authorization, Content-Type, Content-Encoding, X-Splunk-Request-Channel',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+    });
+    res.end(body ? JSON.stringify(body) : undefined);
+  }
+}
@@ -0,0 +1,100 @@
+import { SplunkMeta } from '../Logger';
+import { MemoryTransport } from '../transports';
+import { matchesPartial } from './matching';
+
+export type LoggedEvent = {
+  logType: string;
+  eventName: string;
+  details: Record<string, unknown>; // every other field of the event
+  meta: SplunkMeta;
+};
+
+const describeEvent = ({ logType, eventName, details }: LoggedEvent) =>
+  `  ${logType} "${eventName}" ${JSON.stringify(details)}`;
+
+// A transport that records what was logged, with assertions that work in
+// any test framework (they throw when they fail)
+export class RecordingTransport extends MemoryTransport {
+  // Log events only; metric events are available from `events`
+  public get logged(): LoggedEvent[] {
+    return this.events
+      .filter(({ event }) => event && typeof event === 'object')
+      .map(({ event, ...meta }) => {
+        const { logType, eventName, ...details } = event;
+        return { logType, eventName, details, meta };
+      });
+  }
+
+  // Details are matched partially, see `matchesPartial`
+  public find(
+    logType?: string,
+    eventName?: string | RegExp,
+    partialDetails?: object
+  ): LoggedEvent[] {
+    return this.logged.filter(
+      logged =>
+        (logType === undefined || logged.logType === logType) &&
+        (eventName === undefined ||
+          matchesPartial(logged.eventName, eventName)) &&
+        (partialDetails === undefined ||
+          matchesPartial(logged.details, partialDetails))
+    );
+  }
+
+  // Returns the first matching event, throwing if nothing matched
+  public expectLogged(
+    logType: string,
+    eventName: string | RegExp,
+    partialDetails?: object
+  ): LoggedEvent {
+    const found = this.find(logType, eventName, partialDetails);
+    if (!found.length) {
+      throw new Error(
+        `Expected ${this._describeExpected(
+          logType,
+          eventName,
+          partialDetails
+        )} to have been logged. ${this._describeLogged()}`
+      );
+    }
+    return found[0];
+  }
+
+  public expectNotLogged(
+    logType: string,
+    eventName: string | RegExp,
+    partialDetails?: object
+  ) {
+    const found = this.find(logType, eventName, partialDetails);
+    if (found.length) {
+      throw new Error(
+        `Expected ${this._describeExpected(
+          logType,
+          eventName,
+          partialDetails
+        )} not to have been logged, but found:\n${found
+          .map(describeEvent)
+          .join('\n')}`
+      );
+    }
+  }
+
+  private _describeExpected(
+    logType: string,
+    eventName: string | RegExp,
+    partialDetails?: object
+  ) {
+    const name =
+      eventName instanceof RegExp ? String(eventName) : `"${eventName}"`;
+    return `${logType} ${name}${
+      partialDetails ? ` matching ${JSON.stringify(partialDetails)}` : ''
+    }`;
+  }
+
+  private _describeLogged() {
+    const { logged } = this;
+    return logged.length
+      ? `Logged:\n${logged.map(describeEvent).join('\n')}`
+      : 'Nothing was logged.';
+  }
+}
@@ -0,0 +1,4 @@
+export * from './HecTestServer';
+export { matchesPartial } from './matching';
+export * from './RecordingTransport';
+export * from './testLogger';
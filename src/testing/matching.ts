@@ -0,0 +1,41 @@
+type AsymmetricMatcher = {
+  asymmetricMatch(actual: unknown): boolean;
+};
+
+const isAsymmetricMatcher = (value: unknown): value is AsymmetricMatcher =>
+  !!value && typeof (value as any).asymmetricMatch === 'function';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value &&
+  typeof value === 'object' &&
+  (Object.getPrototypeOf(value) === Object.prototype ||
+    Object.getPrototypeOf(value) === null);
+
+// Objects match when every expected property matches (extra properties are
+// ignored), arrays when every item matches and RegExps when they match a
+// string. Jest's asymmetric matchers (eg: `expect.any(Number)`) work too.
+export const matchesPartial = (actual: unknown, expected: unknown): boolean => {
+  if (isAsymmetricMatcher(expected)) {
+    return expected.asymmetricMatch(actual);
+  }
+  if (expected instanceof RegExp) {
+    return typeof actual === 'string' && expected.test(actual);
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, i) => matchesPartial(actual[i], item))
+    );
+  }
+  if (isPlainObject(expected)) {
+    return (
+      !!actual &&
+      typeof actual === 'object' &&
+      Object.keys(expected).every(key =>
+        matchesPartial((actual as Record<string, unknown>)[key], expected[key])
+      )
+    );
+  }
+  return actual === expected;
+};
@@ -0,0 +1,20 @@
+import { Logger, LoggerConfiguration } from '../Logger';
+import { RecordingTransport } from './RecordingTransport';
+
+export type TestLoggerConfiguration = Partial<
+  Omit<LoggerConfiguration, 'transport' | 'splunkUrl' | 'authToken'>
+>;
+
+// Creates a logger that records its events in memory. Each event is sent
+// as soon as it is logged, so there is no need to flush before asserting.
+export const createTestLogger = <TLogTypes extends string[]>(
+  config: TestLoggerConfiguration = {},
+  ...logTypes: TLogTypes
+) => {
+  const transport = new RecordingTransport();
+  const logger = Logger.create(
+    { maxBuffer: 1, ...config, transport },
+    ...logTypes
+  );
+  return { logger, transport };
+};
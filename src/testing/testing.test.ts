@@ -0,0 +1,299 @@
+import {
+  createTestLogger,
+  HecTestServer,
+  matchesPartial,
+  RecordingTransport,
+} from '.';
+import { fetch } from '../fetch';
+import { CustomLogger, Logger } from '../Logger';
+
+describe('matchesPartial', () => {
+  it('matches objects with the expected properties', () => {
+    expect(matchesPartial({ a: 1, b: { c: 2, d: 3 } }, { b: { c: 2 } })).toBe(
+      true
+    );
+    expect(matchesPartial({ a: 1 }, { a: 2 })).toBe(false);
+    expect(matchesPartial(undefined, { a: 1 })).toBe(false);
+  });
+
+  it('matches arrays item by item', () => {
+    expect(matchesPartial([{ a: 1, b: 2 }], [{ a: 1 }])).toBe(true);
+    expect(matchesPartial([1, 2], [1])).toBe(false);
+  });
+
+  it('matches strings with RegExps', () => {
+    expect(matchesPartial('user:login', /^user:/)).toBe(true);
+    expect(matchesPartial(123, /123/)).toBe(false);
+  });
+
+  it('supports asymmetric matchers', () => {
+    expect(matchesPartial({ id: 123 }, { id: expect.any(Number) })).toBe(true);
+    expect(matchesPartial({ id: '123' }, { id: expect.any(Number) })).toBe(
+      false
+    );
+  });
+});
+
+describe('createTestLogger', () => {
+  it('records events as soon as they are logged', () => {
+    const { logger, transport } = createTestLogger();
+    logger.info('user:login', { userId: 123 }, { index: 'audit' });
+
+    expect(transport).toBeInstanceOf(RecordingTransport);
+    expect(transport.logged).toEqual([
+      {
+        logType: 'info',
+        eventName: 'user:login',
+        details: { userId: 123 },
+        meta: expect.objectContaining({ index: 'audit' }),
+      },
+    ]);
+  });
+
+  it('supports custom log types and configuration', () => {
+    const { logger, transport } = createTestLogger(
+      { splunkMeta: { host: 'test' } },
+      'happy',
+      'sad'
+    );
+    logger.happy('Wooo!!');
+
+    expect(transport.expectLogged('happy', 'Wooo!!').meta.host).toBe('test');
+  });
+
+  it('only lists log events as logged', () => {
+    const { logger, transport } = createTestLogger();
+    logger.metric('cpu', 12.5);
+    logger.info('foo');
+
+    expect(transport.events).toHaveLength(2);
+    expect(transport.logged).toHaveLength(1);
+  });
+});
+
+describe('RecordingTransport', () => {
+  const setup = () => {
+    const { logger, transport } = createTestLogger();
+    logger.info('user:login', { user: { id: 123, name: 'bob' } });
+    logger.error('user:logout', { reason: 'timeout' });
+    return transport;
+  };
+
+  it('finds events by log type, name and details', () => {
+    const transport = setup();
+
+    expect(transport.find('info')).toHaveLength(1);
+    expect(transport.find(undefined, /^user:/)).toHaveLength(2);
+    expect(transport.find('error', 'user:logout', { reason: 'nope' })).toEqual(
+      []
+    );
+  });
+
+  it('returns the matching event from expectLogged', () => {
+    const transport = setup();
+
+    expect(
+      transport.expectLogged('info', 'user:login', { user: { id: 123 } })
+    ).toEqual(
+      expect.objectContaining({
+        details: { user: { id: 123, name: 'bob' } },
+      })
+    );
+  });
+
+  it('throws from expectLogged with what was logged', () => {
+    const transport = setup();
+
+    expect(() =>
+      transport.expectLogged('info', 'user:login', { user: { id: 456 } })
+    ).toThrow(
+      'Expected info "user:login" matching {"user":{"id":456}} to have been logged. Logged:\n' +
+        '  info "user:login" {"user":{"id":123,"name":"bob"}}\n' +
+        '  error "user:logout" {"reason":"timeout"}'
+    );
+    expect(() => new RecordingTransport().expectLogged('info', 'foo')).toThrow(
+      'Nothing was logged.'
+    );
+  });
+
+  it('throws from expectNotLogged when an event matches', () => {
+    const transport = setup();
+
+    expect(() =>
+      transport.expectNotLogged('info', 'user:logout')
+    ).not.toThrow();
+    expect(() => transport.expectNotLogged('error', /logout/)).toThrow(
+      'Expected error /logout/ not to have been logged, but found:\n' +
+        '  error "user:logout" {"reason":"timeout"}'
+    );
+  });
+});
+
+describe('HecTestServer', () => {
+  let server: HecTestServer;
+  let logger: CustomLogger<[]> | undefined;
+
+  const post = (
+    path: string,
+    body: string,
+    headers: Record<string, string> = { Authorization: 'Splunk TEST-TOKEN' }
+  ) =>
+    fetch(server.url.replace('/services/collector/event', path), {
+      method: 'POST',
+      headers,
+      body,
+    }).then(async response => ({
+      status: response.status,
+      body: JSON.parse(await response.text()),
+    }));
+
+  beforeEach(async () => {
+    server = new HecTestServer();
+    await server.start();
+  });
+
+  afterEach(async () => {
+    if (logger) {
+      await logger.close({ timeoutMs: 100 });
+      logger = undefined;
+    }
+    await server.stop();
+  });
+
+  it('receives events from a logger', async () => {
+    logger = Logger.create({ splunkUrl: server.url, authToken: server.token });
+    logger.info('foo', { bar: 'baz' }, { index: 'main' });
+    await logger.flush();
+
+    expect(server.events).toEqual([
+      {
+        endpoint: 'event',
+        event: { logType: 'info', eventName: 'foo', bar: 'baz' },
+        meta: expect.objectContaining({ index: 'main' }),
+        channel: expect.any(String),
+      },
+    ]);
+  });
+
+  it('receives raw events with their meta from the query string', async () => {
+    logger = Logger.create({
+      splunkUrl: server.url,
+      authToken: server.token,
+      endpoint: 'raw',
+      splunkMeta: { index: 'main', sourcetype: 'app:json' },
+    });
+    logger.info('foo');
+    await logger.flush();
+
+    expect(server.events).toEqual([
+      expect.objectContaining({
+        endpoint: 'raw',
+        event: { logType: 'info', eventName: 'foo' },
+        meta: expect.objectContaining({
+          index: 'main',
+          sourcetype: 'app:json',
+        }),
+      }),
+    ]);
+  });
+
+  it('decompresses gzipped requests', async () => {
+    logger = Logger.create({
+      splunkUrl: server.url,
+      authToken: server.token,
+      compression: true,
+      compressionThreshold: 0,
+    });
+    logger.info('foo');
+    await logger.flush();
+
+    expect(server.requests[0].headers['content-encoding']).toBe('gzip');
+    expect(server.events).toHaveLength(1);
+  });
+
+  it('rejects missing and invalid tokens', async () => {
+    expect(await post('/services/collector/event', '{"event":1}', {})).toEqual({
+      status: 401,
+      body: { text: 'Token is required', code: 2 },
+    });
+    expect(
+      await post('/services/collector/event', '{"event":1}', {
+        Authorization: 'Splunk NOPE',
+      })
+    ).toEqual({ status: 403, body: { text: 'Invalid token', code: 4 } });
+  });
+
+  it('rejects events without an event field', async () => {
+    expect(
+      await post('/services/collector/event', '{"event":1}\n{"time":1}')
+    ).toEqual({
+      status: 400,
+      body: {
+        text: 'Event field is required',
+        code: 12,
+        'invalid-event-number': 1,
+      },
+    });
+    expect(server.events).toHaveLength(0);
+  });
+
+  it('injects failures that the logger retries', async () => {
+    const onError = jest.fn();
+    logger = Logger.create({
+      splunkUrl: server.url,
+      authToken: server.token,
+      autoRetryDuration: 10,
+      onError,
+    });
+    server.failNext({ status: 503, code: 9, text: 'Server is busy' });
+    server.failNext({ disconnect: true });
+    logger.info('foo');
+    await logger.flush();
+
+    await server.waitForEvents(1);
+    expect(onError.mock.calls.map(([error]) => error.message)).toEqual([
+      'Splunk HEC responded with 503: Server is busy',
+      expect.stringContaining('Unable to reach Splunk HEC'),
+    ]);
+  });
+
+  it('acknowledges batches on their channel', async () => {
+    await server.stop();
+    server = new HecTestServer({ useAck: true });
+    await server.start();
+    logger = Logger.create({
+      splunkUrl: server.url,
+      authToken: server.token,
+      useAck: true,
+      ackPollInterval: 10,
+    });
+    logger.info('foo');
+    await logger.flush({ waitForAck: true });
+
+    expect(server.requests.map(({ path }) => path)).toEqual([
+      '/services/collector/event',
+      '/services/collector/ack',
+    ]);
+    expect(logger.stats().sent).toBe(1);
+  });
+
+  it('reports the health of the collector', async () => {
+    const health = () =>
+      fetch(server.url.replace('/event', '/health')).then(
+        ({ status }) => status
+      );
+
+    expect(await health()).toBe(200);
+    server.healthy = false;
+    expect(await health()).toBe(503);
+    expect(
+      (await post('/services/collector/event', '{"event":1}')).body
+    ).toEqual({ text: 'Server is busy', code: 9 });
+  });
+
+  it('times out waiting for events', async () => {
+    await expect(server.waitForEvents(1, 10)).rejects.toThrow(
+      'Expected 1 events within 10ms, received 0'
+    );
+  });
+});
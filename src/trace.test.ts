@@ -0,0 +1,76 @@
+import {
+  createTraceContext,
+  formatTraceparent,
+  parseTraceparent,
+} from './trace';
+
+describe('trace', () => {
+  const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+  describe('parseTraceparent', () => {
+    it('parses a traceparent header', () => {
+      expect(parseTraceparent(traceparent)).toEqual({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+        sampled: true,
+      });
+    });
+
+    it('reads the sampled flag', () => {
+      expect(
+        parseTraceparent(
+          '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00'
+        )
+      ).toEqual(expect.objectContaining({ sampled: false }));
+    });
+
+    it.each([
+      ['malformed', 'nope'],
+      [
+        'an invalid version',
+        'ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+      ],
+      ['an all zero trace id', `00-${'0'.repeat(32)}-00f067aa0ba902b7-01`],
+      [
+        'an all zero span id',
+        `00-4bf92f3577b34da6a3ce929d0e0e4736-${'0'.repeat(16)}-01`,
+      ],
+    ])('rejects %s traceparent', (_, invalid) => {
+      expect(parseTraceparent(invalid)).toBeUndefined();
+    });
+  });
+
+  describe('formatTraceparent', () => {
+    it('formats a traceparent header', () => {
+      expect(formatTraceparent(parseTraceparent(traceparent)!)).toBe(
+        traceparent
+      );
+    });
+  });
+
+  describe('createTraceContext', () => {
+    it('starts a new trace', () => {
+      expect(createTraceContext()).toEqual({
+        traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+        spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+        sampled: true,
+      });
+    });
+
+    it('continues an incoming trace', () => {
+      const context = createTraceContext(traceparent);
+
+      expect(context).toEqual({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+        parentSpanId: '00f067aa0ba902b7',
+        sampled: true,
+      });
+      expect(context.spanId).not.toBe('00f067aa0ba902b7');
+    });
+
+    it('starts a new trace when the traceparent is invalid', () => {
+      expect(createTraceContext('nope').parentSpanId).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { randomHex } from './guid';
+
+// See https://www.w3.org/TR/trace-context/#traceparent-header
+export type TraceContext = {
+  traceId: string; // 32 hex characters
+  spanId: string; // 16 hex characters
+  parentSpanId?: string;
+  sampled: boolean;
+};
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+export const parseTraceparent = (
+  traceparent: string
+): TraceContext | undefined => {
+  const match = TRACEPARENT.exec(traceparent.trim().toLowerCase());
+  if (
+    !match ||
+    match[1] === 'ff' ||
+    match[2] === INVALID_TRACE_ID ||
+    match[3] === INVALID_SPAN_ID
+  ) {
+    return;
+  }
+  return {
+    traceId: match[2],
+    spanId: match[3],
+    sampled: parseInt(match[4], 16) % 2 === 1,
+  };
+};
+
+export const formatTraceparent = ({ traceId, spanId, sampled }: TraceContext) =>
+  `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+
+// Starts a new span. Spans continue the trace of their parent (either a
+// parent span or an incoming `traceparent` header), otherwise they start
+// a new trace.
+export const createTraceContext = (
+  parent?: TraceContext | string
+): TraceContext => {
+  const parentContext =
+    typeof parent === 'string' ? parseTraceparent(parent) : parent;
+  if (!parentContext) {
+    return { traceId: randomHex(16), spanId: randomHex(8), sampled: true };
+  }
+  return {
+    traceId: parentContext.traceId,
+    spanId: randomHex(8),
+    parentSpanId: parentContext.spanId,
+    sampled: parentContext.sampled,
+  };
+};
@@ -0,0 +1,11 @@
+import { writeToConsole } from '../consoleCapture';
+import { Batch, Transport, TransportResult } from './Transport';
+
+export class ConsoleTransport implements Transport {
+  public async send(batch: Batch): Promise<TransportResult> {
+    batch.body
+      .split('\n')
+      .forEach(line => writeToConsole('log', JSON.parse(line)));
+    return {};
+  }
+}
@@ -0,0 +1,27 @@
+import { Batch, Transport, TransportResult } from './Transport';
+
+// Sends each batch to several transports. When used as a logger's
+// transport, the logger tracks retries for each of these transports
+// separately so one failing destination does not hold up the others.
+export class FanoutTransport implements Transport {
+  constructor(public readonly transports: Transport[]) {}
+
+  public async send(batch: Batch): Promise<TransportResult> {
+    const results = await Promise.all(
+      this.transports.map(transport => transport.send({ ...batch }))
+    );
+    return results.filter(result => result.error)[0] || {};
+  }
+
+  public close() {
+    this.transports.forEach(transport => transport.close && transport.close());
+  }
+}
+
+export const flattenTransports = (transport: Transport): Transport[] =>
+  transport instanceof FanoutTransport
+    ? transport.transports.reduce(
+        (acc, child) => [...acc, ...flattenTransports(child)],
+        [] as Transport[]
+      )
+    : [transport];
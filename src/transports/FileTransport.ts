@@ -0,0 +1,22 @@
+import { promises as fs } from 'fs';
+import { KersplunkError } from '../KersplunkError';
+import { Batch, Transport, TransportResult } from './Transport';
+
+// Appends each event to a newline delimited JSON (NDJSON) file
+export class FileTransport implements Transport {
+  constructor(private _filePath: string) {}
+
+  public async send(batch: Batch): Promise<TransportResult> {
+    try {
+      await fs.appendFile(this._filePath, `${batch.body}\n`, 'utf8');
+      return {};
+    } catch (e) {
+      return {
+        error: new KersplunkError(
+          `Unable to write logs to ${this._filePath}: ${e.message}`,
+          { retryable: true, cause: e }
+        ),
+      };
+    }
+  }
+}
@@ -0,0 +1,363 @@
+import { AckTracker } from '../AckTracker';
+import { byteLength } from '../byteLength';
+import { fromBase64, gzip, toBase64 } from '../compression';
+import { fetch } from '../fetch';
+import { createGuid } from '../guid';
+import {
+  collectorUrl,
+  HecEndpoint,
+  hecErrorFromNetworkFailure,
+  hecErrorFromResponse,
+  parseHecResponse,
+  toRawRequests,
+  withQueryParams,
+} from '../hec';
+import { KersplunkError } from '../KersplunkError';
+import { Batch, Transport, TransportResult } from './Transport';
+
+// A token, or a function that resolves one (eg: from a vault). Tokens
+// from a function are reused until HEC rejects them with a 401 or 403.
+export type AuthToken = string | (() => string | Promise<string>);
+
+export type HecTransportConfiguration = {
+  splunkUrl: string;
+  authToken: AuthToken;
+  endpoint?: HecEndpoint;
+  channel?: string;
+  useAck?: boolean;
+  ackPollInterval?: number; // ms
+  ackTimeout?: number; // ms
+  compression?: boolean;
+  compressionThreshold?: number; // bytes
+};
+
+type EncodedBody = {
+  body: string | Uint8Array;
+  encoding?: 'gzip';
+};
+
+type PostResult = {
+  error?: KersplunkError;
+  ackId?: number;
+};
+
+// The settings that can be changed after the transport is created
+export type HecRuntimeConfiguration = Partial<
+  Pick<
+    HecTransportConfiguration,
+    | 'splunkUrl'
+    | 'authToken'
+    | 'endpoint'
+    | 'compression'
+    | 'compressionThreshold'
+  >
+>;
+
+type ProvidedToken = {
+  promise: Promise<string>;
+  value?: string; // once resolved
+};
+
+const isUnauthorized = (status: number) => status === 401 || status === 403;
+
+// Browsers limit the total size of keepalive requests still in flight
+const KEEPALIVE_MAX_BYTES = 64 * 1024;
+
+const globalScope: any = typeof globalThis !== 'undefined' ? globalThis : {};
+
+export class HecTransport implements Transport {
+  public readonly channel: string;
+  private _acks: AckTracker;
+  private _token?: ProvidedToken;
+  private _keepaliveBytes = 0; // in flight
+
+  constructor(private _config: HecTransportConfiguration) {
+    this.channel = _config.channel || createGuid();
+    this._acks = new AckTracker(
+      ackIds => this._pollAcks(ackIds),
+      _config.ackPollInterval || 2000,
+      _config.ackTimeout || 60000
+    );
+  }
+
+  // In raw mode a batch is split into a request for each set of metadata.
+  // Requests that were accepted are not sent again when the batch is
+  // retried, unless `useAck` is enabled since their acks are not awaited.
+  public async send(batch: Batch): Promise<TransportResult> {
+    // The endpoint may have changed since the requests were cached (eg: by
+    // `configure` or a restart), in which case the requests differ too
+    if (batch.requestsFor !== this._endpoint()) {
+      batch.compressed = undefined;
+      batch.delivered = undefined;
+    }
+    batch.requestsFor = this._endpoint();
+    const delivered = batch.delivered || [];
+    const requests = this._requests(batch);
+    const results = await Promise.all(
+      requests.map(
+        ({ url, body }, i): Promise<PostResult> => {
+          if (delivered.indexOf(i) >= 0) {
+            return Promise.resolve({});
+          }
+          return this._shouldCompress(body)
+            ? this._compress(batch, i, body).then(encoded =>
+                this._post(url, encoded)
+              )
+            : this._post(url, { body });
+        }
+      )
+    );
+    const failed = results.filter(result => result.error)[0];
+    if (failed) {
+      if (!this._config.useAck) {
+        batch.delivered = results
+          .map((result, i) => (result.error ? -1 : i))
+          .filter(i => i >= 0);
+      }
+      return { error: failed.error };
+    }
+    const ackIds = results
+      .map(({ ackId }) => ackId)
+      .filter((ackId): ackId is number => ackId !== undefined);
+    if (!this._config.useAck || !ackIds.length) {
+      return {};
+    }
+    return {
+      acknowledged: Promise.all(
+        ackIds.map(ackId => this._acks.waitFor(ackId))
+      ).then(acks => acks.every(Boolean)),
+    };
+  }
+
+  // Applies to the next request. Batches already sent keep their settings.
+  public configure(changes: HecRuntimeConfiguration) {
+    if (changes.authToken !== undefined) {
+      this._token = undefined;
+    }
+    this._config = { ...this._config, ...changes };
+  }
+
+  // Prefers the browser's native fetch with `keepalive` since it keeps the
+  // Authorization header. navigator.sendBeacon can not send headers, so it
+  // passes the token as a query parameter which requires the HEC token to
+  // allow query string authentication.
+  // A token from a function can only be used once it has been resolved.
+  // Batches that do not fit in what is left of the browser's keepalive
+  // quota are refused so the logger can send them normally.
+  public sendBeacon(batch: Batch) {
+    const nativeFetch = globalScope.fetch;
+    const { sendBeacon } = globalScope.navigator || ({} as any);
+    const { authToken } = this._config;
+    const token =
+      typeof authToken === 'string'
+        ? authToken
+        : this._token && this._token.value;
+    if (token === undefined) {
+      return false;
+    }
+    const requests = this._requests(batch);
+    if (typeof nativeFetch === 'function') {
+      const bytes = requests.reduce(
+        (total, { body }) => total + byteLength(body),
+        0
+      );
+      if (this._keepaliveBytes + bytes > KEEPALIVE_MAX_BYTES) {
+        return false;
+      }
+      requests.forEach(({ url, body }) => {
+        const bodyBytes = byteLength(body);
+        const done = () => {
+          this._keepaliveBytes -= bodyBytes;
+        };
+        this._keepaliveBytes += bodyBytes;
+        nativeFetch(url, {
+          method: 'POST',
+          headers: this._headers(token),
+          body,
+          keepalive: true,
+        }).then(done, done);
+      });
+      return true;
+    }
+    if (typeof sendBeacon === 'function') {
+      return requests.every(({ url, body }) =>
+        sendBeacon.call(
+          globalScope.navigator,
+          withQueryParams(url, {
+            token,
+            channel: this.channel,
+          }),
+          body
+        )
+      );
+    }
+    return false;
+  }
+
+  // Stops polling for acks. Batches still waiting on an ack are reported
+  // as unacknowledged.
+  public close() {
+    this._acks.clear();
+  }
+
+  private _endpoint(): HecEndpoint {
+    return this._config.endpoint || 'event';
+  }
+
+  private _requests(batch: Batch) {
+    if (this._endpoint() !== 'raw') {
+      return [{ url: this._config.splunkUrl, body: batch.body }];
+    }
+    const rawUrl = collectorUrl(this._config.splunkUrl, 'raw');
+    return toRawRequests(batch.body).map(({ params, body, endpoint }) => ({
+      url: endpoint
+        ? collectorUrl(this._config.splunkUrl, endpoint)
+        : withQueryParams(rawUrl, params),
+      body,
+    }));
+  }
+
+  private _headers(token: string) {
+    return {
+      Authorization: `Splunk ${token}`,
+      'X-Splunk-Request-Channel': this.channel,
+    };
+  }
+
+  private _authToken(): Promise<string> {
+    const { authToken } = this._config;
+    if (typeof authToken === 'string') {
+      return Promise.resolve(authToken);
+    }
+    if (!this._token) {
+      // Concurrent requests share the same call to the function
+      const token: ProvidedToken = {
+        promise: Promise.resolve()
+          .then(() => authToken())
+          .then(
+            value => {
+              token.value = value;
+              return value;
+            },
+            e => {
+              if (this._token === token) {
+                this._token = undefined;
+              }
+              throw new KersplunkError(
+                `Unable to get the HEC auth token: ${
+                  e instanceof Error ? e.message : e
+                }`,
+                { retryable: true, cause: e }
+              );
+            }
+          ),
+      };
+      this._token = token;
+    }
+    return this._token.promise;
+  }
+
+  // Requests rejected as unauthorized are sent once more with a new token
+  // when it comes from a function. Another request may have already
+  // replaced the rejected token, in which case that one is used.
+  private _authorizedPost(
+    url: string,
+    body: string | Uint8Array,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const post = (token: string) =>
+      fetch(url, {
+        method: 'POST',
+        headers: { ...this._headers(token), ...headers },
+        body,
+      });
+    const { authToken } = this._config;
+    if (typeof authToken === 'string') {
+      // Posted right away, without waiting on a token
+      return post(authToken);
+    }
+    return this._authToken().then(current =>
+      post(current).then(response => {
+        if (!isUnauthorized(response.status)) {
+          return response;
+        }
+        if (this._token && this._token.value === current) {
+          this._token = undefined;
+        }
+        return this._authToken().then(post);
+      })
+    );
+  }
+
+  // Compressed bodies are cached on the batch so retries (and persisted
+  // batches) do not need to compress them again.
+  private _shouldCompress(body: string) {
+    const { compression, compressionThreshold = 1024 } = this._config;
+    return !!compression && byteLength(body) >= compressionThreshold;
+  }
+
+  private async _compress(
+    batch: Batch,
+    requestIndex: number,
+    body: string
+  ): Promise<EncodedBody> {
+    const compressed = batch.compressed || [];
+    if (!compressed[requestIndex]) {
+      let gzipped: Uint8Array | undefined;
+      try {
+        gzipped = await gzip(body);
+      } catch (e) {
+        // Fall back to sending the body uncompressed
+      }
+      if (!gzipped) {
+        return { body };
+      }
+      compressed[requestIndex] = toBase64(gzipped);
+      batch.compressed = compressed;
+    }
+    return { body: fromBase64(compressed[requestIndex]), encoding: 'gzip' };
+  }
+
+  private async _post(
+    url: string,
+    { body, encoding }: EncodedBody
+  ): Promise<PostResult> {
+    let response: Response;
+    try {
+      response = await this._authorizedPost(
+        url,
+        body,
+        encoding ? { 'Content-Encoding': encoding } : {}
+      );
+    } catch (e) {
+      return {
+        error: e instanceof KersplunkError ? e : hecErrorFromNetworkFailure(e),
+      };
+    }
+    if (response.ok && !this._config.useAck) {
+      return {};
+    }
+    let responseBody = '';
+    try {
+      responseBody = await response.text();
+    } catch (e) {
+      // The status alone is enough to classify the failure
+    }
+    if (response.ok) {
+      return { ackId: parseHecResponse(responseBody).ackId };
+    }
+    return { error: hecErrorFromResponse(response.status, responseBody) };
+  }
+
+  private async _pollAcks(ackIds: number[]) {
+    const response = await this._authorizedPost(
+      collectorUrl(this._config.splunkUrl, 'ack'),
+      JSON.stringify({ acks: ackIds })
+    );
+    if (!response.ok) {
+      throw new Error(`Ack request failed with ${response.status}`);
+    }
+    const { acks } = JSON.parse(await response.text());
+    return acks || {};
+  }
+}
@@ -0,0 +1,24 @@
+import { Batch, Transport, TransportResult } from './Transport';
+
+export class MemoryTransport implements Transport {
+  public batches: Batch[] = [];
+
+  public get events(): any[] {
+    return this.batches.reduce(
+      (acc, batch) => [
+        ...acc,
+        ...batch.body.split('\n').map(line => JSON.parse(line)),
+      ],
+      [] as any[]
+    );
+  }
+
+  public async send(batch: Batch): Promise<TransportResult> {
+    this.batches = [...this.batches, batch];
+    return {};
+  }
+
+  public clear() {
+    this.batches = [];
+  }
+}
@@ -0,0 +1,35 @@
+import { KersplunkError } from '../KersplunkError';
+
+export type Batch = {
+  body: string; // newline delimited events
+  events: number;
+  bytes: number;
+  attempts: number;
+  // Base64 encoded compressed request bodies, cached by transports
+  // that compress so retries do not repeat the work
+  compressed?: string[];
+  // Indexes of the requests a batch was split into that were already
+  // accepted, so retries only send the rest
+  delivered?: number[];
+  requestsFor?: string; // what the cached requests were for (eg: the endpoint)
+};
+
+export type TransportResult = {
+  error?: KersplunkError;
+  // Resolves once the destination confirms the batch was stored (eg: HEC
+  // indexer acknowledgment). `false` means the batch should be re-sent.
+  acknowledged?: Promise<boolean>;
+};
+
+// Delivers batches of serialized events somewhere. Transports should
+// report failures through the result rather than throwing so the logger
+// can decide whether to retry.
+export type Transport = {
+  send(batch: Batch): Promise<TransportResult>;
+  // Optional best-effort delivery that survives the page being unloaded
+  // (eg: navigator.sendBeacon). Returns `false` if the batch could not be
+  // queued, in which case the logger falls back to `send`.
+  sendBeacon?(batch: Batch): boolean;
+  // Releases any timers or connections when the logger is closed
+  close?(): void;
+};
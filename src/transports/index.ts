@@ -0,0 +1,6 @@
+export * from './Transport';
+export * from './HecTransport';
+export * from './ConsoleTransport';
+export * from './MemoryTransport';
+export * from './FileTransport';
+export { FanoutTransport } from './FanoutTransport';
@@ -0,0 +1,94 @@
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Batch,
+  ConsoleTransport,
+  FanoutTransport,
+  FileTransport,
+  MemoryTransport,
+} from '.';
+import { KersplunkError } from '../KersplunkError';
+
+const batch = (...events: object[]): Batch => {
+  const body = events.map(event => JSON.stringify({ event })).join('\n');
+  return { body, events: events.length, bytes: body.length, attempts: 1 };
+};
+
+describe('MemoryTransport', () => {
+  it('records batches and their parsed events', async () => {
+    const transport = new MemoryTransport();
+    await transport.send(batch({ foo: 1 }, { foo: 2 }));
+    await transport.send(batch({ foo: 3 }));
+
+    expect(transport.batches).toHaveLength(2);
+    expect(transport.events).toEqual([
+      { event: { foo: 1 } },
+      { event: { foo: 2 } },
+      { event: { foo: 3 } },
+    ]);
+  });
+
+  it('can be cleared', async () => {
+    const transport = new MemoryTransport();
+    await transport.send(batch({ foo: 1 }));
+    transport.clear();
+
+    expect(transport.events).toEqual([]);
+  });
+});
+
+describe('ConsoleTransport', () => {
+  it('logs each event to the console', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    await new ConsoleTransport().send(batch({ foo: 1 }, { foo: 2 }));
+
+    expect(console.log) // tslint:disable-line no-console
+      .toHaveBeenCalledWith({ event: { foo: 1 } });
+    expect(console.log) // tslint:disable-line no-console
+      .toHaveBeenCalledWith({ event: { foo: 2 } });
+  });
+});
+
+describe('FileTransport', () => {
+  it('appends NDJSON to the file', async () => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'kersplunk-')), 'logs');
+    const transport = new FileTransport(filePath);
+    await transport.send(batch({ foo: 1 }));
+    await transport.send(batch({ foo: 2 }));
+
+    expect(readFileSync(filePath, 'utf8')).toBe(
+      '{"event":{"foo":1}}\n{"event":{"foo":2}}\n'
+    );
+  });
+
+  it('reports failed writes as retryable errors', async () => {
+    const transport = new FileTransport('/does/not/exist/logs');
+
+    expect(await transport.send(batch({ foo: 1 }))).toEqual({
+      error: expect.objectContaining({ retryable: true }),
+    });
+  });
+});
+
+describe('FanoutTransport', () => {
+  it('sends each batch to every transport', async () => {
+    const one = new MemoryTransport();
+    const two = new MemoryTransport();
+    await new FanoutTransport([one, two]).send(batch({ foo: 1 }));
+
+    expect(one.events).toEqual([{ event: { foo: 1 } }]);
+    expect(two.events).toEqual([{ event: { foo: 1 } }]);
+  });
+
+  it('reports the first failure', async () => {
+    const error = new KersplunkError('Nope', { retryable: true });
+    const failing = { send: () => Promise.resolve({ error }) };
+
+    expect(
+      await new FanoutTransport([new MemoryTransport(), failing]).send(
+        batch({ foo: 1 })
+      )
+    ).toEqual({ error });
+  });
+});